@@ -1,9 +1,11 @@
 /**
  * Browser-side entry point (v2) with comprehensive logging
- * - Live characters via Socket.IO   → event: "char"
- * - Historical slices via GET /v1/chars
+ * - Channel picked with ?channel=<id> (server default otherwise)
+ * - Nested words (e.g. "cat" in "cattle") shown on hover with ?nested=1
+ * - Live characters via Socket.IO   → event: "chars" (batched)
+ * - Historical slices via GET /v1/channels/<id>/chars
  * - Word hits via "word"
- * - Stats (users / speed) via polling /v1/stats
+ * - Stats (users / speed) via polling /v1/channels/<id>/stats
  */
 
 import io from 'socket.io-client';
@@ -21,9 +23,16 @@ import {
 // ---------------------------------------------------------------------------
 // Types mirrored from server DTOs
 // ---------------------------------------------------------------------------
-interface CharEvt   { index: number; ch: string }
-interface WordHit   { start: number; len: number; word?: string }
-interface StatsJSON { users: number; charsPerMinute: number }
+interface CharsEvt  { start: number; text: string }
+interface WordHit   { start: number; len: number; word?: string; kind?: 'primary' | 'nested'; dictionary?: string; rarity?: number }
+interface StatsJSON {
+  users: number;
+  realUsers: number;
+  syntheticUsers: number;
+  charsPerMinute: number;
+  ratePolicy: string;
+  catchingUp: boolean;
+}
 
 // ---------------------------------------------------------------------------
 // Tunables — must match server values
@@ -31,8 +40,15 @@ interface StatsJSON { users: number; charsPerMinute: number }
 const CHUNK = 8_192;
 const STATS_POLL_MS = 5_000;
 
+// Channel-scoped REST root; the un-prefixed routes serve the default channel
+const CHANNEL = new URLSearchParams(location.search).get('channel');
+const API_ROOT = CHANNEL ? `/v1/channels/${encodeURIComponent(CHANNEL)}` : '/v1';
+const SHOW_NESTED = new URLSearchParams(location.search).get('nested') === '1';
+
 logger.info({
   chunk_size: CHUNK,
+  channel: CHANNEL ?? 'default',
+  show_nested: SHOW_NESTED,
   stats_poll_interval: STATS_POLL_MS,
   environment: import.meta.env.MODE,
 }, 'Typewriting Monkey client starting');
@@ -81,7 +97,7 @@ const getChunk = async (id: number) => {
   
   try {
     chunkLogger.debug({ chunkId: id, start, len: CHUNK }, 'Fetching chunk');
-    const r = await fetch(`/v1/chars?start=${start}&len=${CHUNK}`);
+    const r = await fetch(`${API_ROOT}/chars?start=${start}&len=${CHUNK}`);
     
     if (r.ok) {
       chunks[id] = await r.text();
@@ -111,6 +127,10 @@ const fullText = (): string => {
   return text;
 };
 
+// Custom alphabets may contain markup characters
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 const nonOverlappingHits = (raw: WordHit[]) => {
   const sorted = [...raw].sort((a, b) => a.start - b.start || b.len - a.len);
   const res: WordHit[] = [];
@@ -121,6 +141,10 @@ const nonOverlappingHits = (raw: WordHit[]) => {
   return res;
 };
 
+/** Every other hit lying inside `outer`, for the hover list. */
+const hitsWithin = (outer: WordHit, all: WordHit[]) =>
+  all.filter(h => h !== outer && h.start >= outer.start && h.start + h.len <= outer.start + outer.len);
+
 const render = () => {
   if (!initialized) {
     renderLogger.trace('Skipping render - not initialized');
@@ -131,16 +155,20 @@ const render = () => {
   renderCount++;
   
   const t = fullText();
-  const visible = nonOverlappingHits(hits.filter(h => h.start < t.length));
+  const visible = nonOverlappingHits(hits.filter(h => h.start < t.length && h.kind !== 'nested'));
 
   let html = '';
   let ptr = 0;
   visible.forEach(h => {
-    html += t.slice(ptr, h.start);
-    html += `<span class="word len${h.len}">${t.slice(h.start, h.start + h.len)}</span>`;
+    const word = escapeHtml(t.slice(h.start, h.start + h.len));
+    const inner = SHOW_NESTED ? hitsWithin(h, hits) : [];
+    html += escapeHtml(t.slice(ptr, h.start));
+    html += inner.length
+      ? `<span class="word len${h.len} has-nested" title="${inner.map(n => escapeHtml(t.slice(n.start, n.start + n.len))).join(' · ')}">${word}</span>`
+      : `<span class="word len${h.len}">${word}</span>`;
     ptr = h.start + h.len;
   });
-  html += t.slice(ptr);
+  html += escapeHtml(t.slice(ptr));
   out.innerHTML = html;
   
   const renderTime = performance.now() - startTime;
@@ -173,14 +201,20 @@ const render = () => {
 // Stats polling
 // ---------------------------------------------------------------------------
 const updateStats = (s: StatsJSON) => {
-  statsLogger.debug({ users: s.users, cpm: s.charsPerMinute }, 'Stats updated');
-  stats.textContent = `${s.users} online · ${s.charsPerMinute} cpm`;
+  statsLogger.debug({
+    realUsers: s.realUsers,
+    syntheticUsers: s.syntheticUsers,
+    cpm: s.charsPerMinute,
+    policy: s.ratePolicy,
+  }, 'Stats updated');
+  stats.textContent = `${s.realUsers} online · ${Math.round(s.charsPerMinute)} cpm`
+    + (s.catchingUp ? ' · catching up' : '');
 };
 
 const pollStats = async () => {
   try {
     const startTime = performance.now();
-    const r = await fetch('/v1/stats');
+    const r = await fetch(`${API_ROOT}/stats`);
     
     if (r.ok) {
       const data = await r.json();
@@ -211,7 +245,11 @@ const pollStats = async () => {
 
   const sock = io({
     path: '/ws',
-    transports: ['websocket']
+    transports: ['websocket'],
+    query: {
+      ...(CHANNEL ? { channel: CHANNEL } : {}),
+      ...(SHOW_NESTED ? { nested: 'true' } : {}),
+    },
   });
 
   // Socket event handlers
@@ -301,35 +339,43 @@ const pollStats = async () => {
   });
 
   /* Live characters -------------------------------------------------- */
-  sock.on('char', ({ index, ch }: CharEvt) => {
-    charCount++;
-    const id = Math.floor(index / CHUNK);
-    const offset = index % CHUNK;
+  sock.on('chars', ({ start, text }: CharsEvt) => {
+    charCount += text.length;
 
-    if (chunks[id] === undefined) chunks[id] = '';
+    // A batch may straddle chunk boundaries — apply it piece by piece
+    let offsetInText = 0;
+    while (offsetInText < text.length) {
+      const index = start + offsetInText;
+      const id = Math.floor(index / CHUNK);
+      const offset = index % CHUNK;
+      const piece = text.slice(offsetInText, offsetInText + CHUNK - offset);
+      offsetInText += piece.length;
 
-    if (chunks[id].length === offset) {
-      chunks[id] += ch;
-    } else if (chunks[id].length < offset) {
-      // Gap detected - need resync
-      socketLogger.warn({
-        chunkId: id,
-        expectedOffset: chunks[id].length,
-        actualOffset: offset,
-        gap: offset - chunks[id].length,
-      }, 'Character gap detected, resyncing chunk');
-      
-      fetch(`/v1/chars?start=${id * CHUNK}&len=${CHUNK}`)
-        .then(r => r.text())
-        .then(txt => { 
-          chunks[id] = txt;
-          socketLogger.info({ chunkId: id }, 'Chunk resync completed');
-          if (initialized) render();
-        })
-        .catch(error => logError(socketLogger, error, { chunkId: id, context: 'resync' }));
-      return;
+      if (chunks[id] === undefined) chunks[id] = '';
+
+      if (chunks[id].length >= offset) {
+        // Append whatever we don't already have
+        chunks[id] += piece.slice(chunks[id].length - offset);
+      } else {
+        // Gap detected - need resync
+        socketLogger.warn({
+          chunkId: id,
+          expectedOffset: chunks[id].length,
+          actualOffset: offset,
+          gap: offset - chunks[id].length,
+        }, 'Character gap detected, resyncing chunk');
+        
+        fetch(`${API_ROOT}/chars?start=${id * CHUNK}&len=${CHUNK}`)
+          .then(r => r.text())
+          .then(txt => { 
+            chunks[id] = txt;
+            socketLogger.info({ chunkId: id }, 'Chunk resync completed');
+            if (initialized) render();
+          })
+          .catch(error => logError(socketLogger, error, { chunkId: id, context: 'resync' }));
+      }
     }
-    cursor = index + 1;
+    cursor = Math.max(cursor, start + text.length);
     if (initialized) render();
     
     // Log character statistics every 10 seconds
@@ -11,13 +11,14 @@ import path, { dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import pinoHttp from "pino-http";
 
-import { CHUNK_SIZE } from "./storage/chunk-store";
-import { FirestoreChunkStore } from "./storage/firestore-chunk-store";
-import { Monkey } from "./core/monkey";
-import { WordDetector } from "./core/word-detector";
-import { DICTIONARY_SIZE } from "./core/word-detector";
-import { WordStore } from "./storage/word-store";
-import { StartupScanner } from "./core/startup-scanner";
+import { loadChannelConfigs } from "./config";
+import { Channel } from "./core/channel";
+import { createChannelRouter } from "./http/channel-router";
+import type { RateSnapshot } from "./core/rate-policy";
+import type { WordHit } from "./core/word-detector";
+import type { PatternHit } from "./core/patterns";
+import { adminEnabled, requireAdmin } from "./http/require-admin";
+import { dictionaries, type Lexicon } from "./core/dictionary";
 import { 
   logger, 
   httpLogger, 
@@ -33,13 +34,18 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const HTTP_PORT = Number(process.env.HTTP_PORT ?? 5500);
 const REST_ROOT = "/v1";
 const WS_PATH = "/ws";
-const TEST_MODE = process.env.TEST_MODE !== "false";
+/** Newest pattern hits sent on connect; `GET /patterns` pages through the rest. */
+const INIT_PATTERN_HITS = 100;
+/** Adds 0–20 synthetic users (reported separately from real ones). */
+const TEST_MODE = process.env.TEST_MODE === "true";
 
 startupLogger.info({
   HTTP_PORT,
   REST_ROOT,
   WS_PATH,
   TEST_MODE,
+  MONKEY_CHANNELS_FILE: process.env.MONKEY_CHANNELS_FILE,
+  adminEnabled,
   NODE_ENV: process.env.NODE_ENV,
 }, 'Starting Typewriting Monkey server');
 
@@ -47,82 +53,28 @@ startupLogger.info({
 const startTime = Date.now();
 
 try {
-  const store = await FirestoreChunkStore.create();
-  startupLogger.info({ cursor: store.cursor, chunks: store.chunkCount() }, 'Chunk store initialized');
-
-  const monkey = new Monkey(store, store.cursor);
-  const detector = new WordDetector();
-  const wordStore = new WordStore();
-
-  // Load persisted words on startup
-  const hits = await wordStore.loadWords();
-  startupLogger.info({ wordCount: hits.length }, 'Loaded persisted words');
-
-  // Initialize the WordDetector with context from existing text
-  const initializeDetector = async () => {
-    const cursor = store.cursor;
-    if (cursor > 0) {
-      const contextStart = Math.max(0, cursor - 20);
-      const contextLen = cursor - contextStart;
-      
-      if (contextLen > 0) {
-        startupLogger.debug({
-          contextStart,
-          contextLen,
-          cursor
-        }, 'Initializing WordDetector with context');
-        
-        const context = await store.readSlice(contextStart, contextLen);
-        
-        for (let i = 0; i < context.length; i++) {
-          detector.push(context[i], contextStart + i);
-        }
-      }
-    }
-  };
-
-  await initializeDetector();
-
-  // Scan for any missing words since last persistence
-  const scanner = new StartupScanner(store);
-  const lastPosition = wordStore.getLastPersistedPosition();
-  const scanStartTime = Date.now();
-  const missingWords = await scanner.scanMissingWords(lastPosition);
-  
-  if (missingWords.length > 0) {
-    startupLogger.warn({
-      missingWordCount: missingWords.length,
-      lastPersistedPosition: lastPosition,
-      currentCursor: store.cursor,
-    }, 'Found missing words during startup scan');
-    
-    hits.push(...missingWords);
-    
-    for (const word of missingWords) {
-      await wordStore.addWord(word);
-    }
-    await wordStore.flush();
+  const configs = loadChannelConfigs();
+  const channels = new Map<string, Channel>();
+  for (const config of configs) {
+    channels.set(config.id, await Channel.open(config));
   }
-  
-  logPerformance(startupLogger, 'startup-scan', scanStartTime, {
-    missingWords: missingWords.length
-  });
-
-  // Link generator → detector → broadcast
-  monkey.on("tick", ({ index, ch }) => detector.push(ch, index));
-  detector.on("word", hit => { 
-    hits.push(hit);
-    io.emit("word", hit);
-    wordStore.addWord(hit).catch(err => logError(wsLogger, err, { context: 'word-store-add' }));
-  });
+  const defaultChannel = channels.get(configs[0].id)!;
+  startupLogger.info({
+    channels: [...channels.keys()],
+    defaultChannel: defaultChannel.id,
+  }, 'Channels initialized');
 
   // ────────────────  Online‑user tracking  ──────────────────────────────────
-  const sockets = new Set<Socket>();
+  const sockets = new Map<string, Set<Socket>>(
+    [...channels.keys()].map(id => [id, new Set<Socket>()]),
+  );
   let mockExtra = 0;
 
-  const onlineUsers = () => sockets.size + mockExtra + 250;
-  const charsPerMinute = () => onlineUsers() * 5;
-  const charsPerSecond = () => charsPerMinute() / 60;
+  const rate = (channel: Channel): RateSnapshot => channel.ratePolicy.evaluate({
+    realUsers: sockets.get(channel.id)!.size,
+    syntheticUsers: mockExtra,
+    now: new Date(),
+  });
 
   if (TEST_MODE) {
     setInterval(() => { 
@@ -140,8 +92,8 @@ try {
     autoLogging: {
       // Ignore high-frequency endpoints
       ignore: (req) => {
-        const ignorePaths = ['/v1/stats', '/v1/chars'];
-        return ignorePaths.some(path => req.url?.startsWith(path));
+        const ignorePaths = /^\/v1(\/channels\/[^/]+)?\/(stats|chars)\b/;
+        return ignorePaths.test(req.url ?? '');
       },
     },
     customLogLevel: (req, res, err) => {
@@ -169,48 +121,109 @@ try {
 
   const router = express.Router();
 
-  // Health / metrics
-  router.get("/status", (_req, res) => {
-    const status = {
-      cursor: store.cursor,
-      chunks: store.chunkCount(),
-      dictionarySize: DICTIONARY_SIZE,
-      users: onlineUsers(),
-      charsPerMinute: charsPerMinute(),
-      uptimeSec: Math.floor(process.uptime()),
-    };
-    
-    httpLogger.debug({ status }, 'Status request');
-    res.json(status);
+  router.get("/channels", (_req, res) => {
+    res.json([...channels.values()].map(channel => ({
+      id: channel.id,
+      default: channel === defaultChannel,
+      alphabet: channel.generator.alphabet.name,
+      cursor: channel.store.cursor,
+      ...rate(channel),
+    })));
   });
 
-  // Random‑access chars
-  router.get("/chars", async (req, res) => {
-    const start = Number(req.query.start);
-    const len = Number(req.query.len);
-    
-    if (!Number.isFinite(start) || !Number.isFinite(len) || start < 0 || len <= 0 || len > CHUNK_SIZE * 16) {
-      httpLogger.warn({ start, len }, 'Invalid char range requested');
+  // Dictionaries are shared by every channel
+  const dictionaryStatus = (lexicon: Lexicon) => ({
+    version: lexicon.version,
+    loadedAt: lexicon.loadedAt.toISOString(),
+    size: lexicon.size,
+    maxLength: lexicon.maxLength,
+    dictionaries: lexicon.dictionaries.map(({ name, size }) => ({ name, size })),
+  });
+
+  router.get("/dictionaries", (_req, res) => {
+    res.json(dictionaryStatus(dictionaries.current));
+  });
+
+  router.post("/admin/dictionaries/reload", requireAdmin, (_req, res) => {
+    try {
+      res.json(dictionaryStatus(dictionaries.reload()));
+    } catch (error) {
+      logError(httpLogger, error, { context: 'dictionary-reload' });
+      res.status(500).json({ error: "Failed to reload dictionaries" });
+    }
+  });
+
+  // Background re-index jobs, at most one per channel
+  const jobView = (channel: Channel) => ({ channel: channel.id, ...channel.reindexJob!.progress() });
+  const findJob = (id: string) => [...channels.values()].find(channel => channel.reindexJob?.id === id);
+
+  router.get("/admin/jobs", requireAdmin, (_req, res) => {
+    res.json([...channels.values()].filter(channel => channel.reindexJob).map(jobView));
+  });
+
+  router.post("/admin/jobs", requireAdmin, express.json(), (req, res) => {
+    const channel = req.body?.channel === undefined ? defaultChannel : channels.get(req.body.channel);
+    if (!channel) {
+      res.status(404).json({ error: "Unknown channel" });
+      return;
+    }
+    if (channel.reindexJob?.progress().status === "running") {
+      res.status(409).json({ error: "A re-index is already running", job: jobView(channel) });
+      return;
+    }
+    const start = Number(req.body?.start ?? 0);
+    const end = Number(req.body?.end ?? channel.store.cursor);
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start || end > channel.store.cursor) {
       res.status(400).json({ error: "Invalid range" });
       return;
     }
-    
-    try {
-      const text = await store.readSlice(start, len);
-      res.type("text/plain").send(text);
-    } catch (error) {
-      logError(httpLogger, error, { start, len });
-      res.status(500).json({ error: "Failed to read slice" });
+    channel.reindex(start, end);
+    res.status(202).json(jobView(channel));
+  });
+
+  router.get("/admin/jobs/:id", requireAdmin, (req, res) => {
+    const channel = findJob(req.params.id);
+    if (!channel) {
+      res.status(404).json({ error: "Unknown job" });
+      return;
     }
+    res.json(jobView(channel));
   });
 
-  // Lightweight stats endpoint
-  router.get("/stats", (_req, res) => {
-    res.json({
-      users: onlineUsers(),
-      charsPerMinute: charsPerMinute(),
-    });
+  router.post("/admin/jobs/:id/pause", requireAdmin, (req, res) => {
+    const channel = findJob(req.params.id);
+    if (channel?.reindexJob?.progress().status !== "running") {
+      res.status(409).json({ error: "Job is not running" });
+      return;
+    }
+    channel.reindexJob.pause();
+    res.status(202).json(jobView(channel));
+  });
+
+  router.post("/admin/jobs/:id/resume", requireAdmin, (req, res) => {
+    const channel = findJob(req.params.id);
+    const job = channel?.reindexJob;
+    if (!job || job.finished || job.progress().status === "running") {
+      res.status(409).json({ error: "Job is not paused" });
+      return;
+    }
+    job.start().catch(err => logError(httpLogger, err, { context: 'reindex', channel: channel.id }));
+    res.status(202).json(jobView(channel));
+  });
+
+  // Per-channel routes, plus the un-prefixed legacy routes for the default one
+  const channelRouters = new Map(
+    [...channels.values()].map(channel => [channel.id, createChannelRouter(channel, () => rate(channel))]),
+  );
+  router.use("/channels/:channelId", (req, res, next) => {
+    const channelRouter = channelRouters.get(req.params.channelId);
+    if (!channelRouter) {
+      res.status(404).json({ error: "Unknown channel" });
+      return;
+    }
+    channelRouter(req, res, next);
   });
+  router.use(channelRouters.get(defaultChannel.id)!);
 
   app.use(REST_ROOT, router);
 
@@ -223,24 +236,57 @@ try {
     pingTimeout: 20_000
   });
 
+  // Link channel events → Socket.IO room of the same name. Nested hits only
+  // go to sockets that asked for them (they also sit in "<id>:nested").
+  const nestedRoom = (channel: Channel) => `${channel.id}:nested`;
+  for (const channel of channels.values()) {
+    channel.on("chars", batch => io.to(channel.id).emit("chars", batch));
+    channel.on("word", (hit: WordHit) => {
+      io.to(hit.kind === "nested" ? nestedRoom(channel) : channel.id).emit("word", hit);
+    });
+    channel.on("pattern", (hit: PatternHit) => io.to(channel.id).emit(`pattern:${hit.plugin}`, hit));
+    channel.on("phrase-progress", progress => io.to(channel.id).emit("phrase-progress", progress));
+    channel.on("phrase-complete", complete => io.to(channel.id).emit("phrase-complete", complete));
+  }
+
   io.on("connection", socket => {
-    sockets.add(socket);
+    // Clients pick a channel with `io({ query: { channel } })`
+    const requested = socket.handshake.query.channel;
+    const channel = typeof requested === "string" ? channels.get(requested) : defaultChannel;
+    if (!channel) {
+      wsLogger.warn({ socketId: socket.id, channel: requested }, 'Socket requested unknown channel');
+      socket.emit("channel-error", { error: "Unknown channel" });
+      socket.disconnect(true);
+      return;
+    }
+
+    // `nested=true` opts into nested word hits (primary ones only otherwise)
+    const nested = socket.handshake.query.nested === "true";
+
+    const roomSockets = sockets.get(channel.id)!;
+    roomSockets.add(socket);
+    socket.join(channel.id);
+    if (nested) socket.join(nestedRoom(channel));
     
     wsLogger.info({
       socketId: socket.id,
-      totalSockets: sockets.size,
+      channel: channel.id,
+      nested,
+      totalSockets: roomSockets.size,
       remoteAddress: socket.handshake.address,
     }, 'Socket connected');
 
     // initial sync
-    socket.emit("cursor", store.cursor);
-    socket.emit("init-words", hits);
+    socket.emit("cursor", channel.store.cursor);
+    socket.emit("init-words", nested ? channel.hits : channel.hits.filter(hit => hit.kind === "primary"));
+    socket.emit("init-patterns", channel.patternHits.slice(-INIT_PATTERN_HITS));
 
     socket.on("disconnect", (reason) => {
-      sockets.delete(socket);
+      roomSockets.delete(socket);
       wsLogger.info({
         socketId: socket.id,
-        totalSockets: sockets.size,
+        channel: channel.id,
+        totalSockets: roomSockets.size,
         reason,
       }, 'Socket disconnected');
     });
@@ -248,41 +294,39 @@ try {
 
   // Character generation loop
   const STEP_MS = 1000 / 60;
-  let carry = 0;
-  let totalCharsGenerated = 0;
   let lastMetricsLog = Date.now();
   
   setInterval(async () => {
-    const cps = charsPerSecond();
-    carry += cps * (STEP_MS / 1000);
-    const emitCnt = Math.floor(carry);
-    carry -= emitCnt;
-
-    try {
-      for (let i = 0; i < emitCnt; i++) {
-        const tick = await monkey.next();
-        io.emit("char", tick);
-        totalCharsGenerated++;
-      }
-
-      // Log metrics every 10 seconds
-      if (Date.now() - lastMetricsLog > 10_000) {
-        logger.info({
-          users: onlineUsers(),
-          cps: cps.toFixed(2),
-          totalChars: totalCharsGenerated,
-          cursor: store.cursor,
-          words: hits.length,
-          sockets: sockets.size,
-        }, 'System metrics');
-        lastMetricsLog = Date.now();
+    const logMetrics = Date.now() - lastMetricsLog > 10_000;
+    if (logMetrics) lastMetricsLog = Date.now();
+
+    for (const channel of channels.values()) {
+      const speed = rate(channel);
+      const cps = speed.charsPerMinute / 60;
+
+      try {
+        await channel.step(cps, STEP_MS);
+
+        // Log metrics every 10 seconds
+        if (logMetrics) {
+          logger.info({
+            ...channel.metrics(),
+            ratePolicy: speed.policy,
+            realUsers: speed.realUsers,
+            syntheticUsers: speed.syntheticUsers,
+            cps: cps.toFixed(2),
+            sockets: sockets.get(channel.id)!.size,
+          }, 'System metrics');
+        }
+      } catch (error) {
+        logError(logger, error, { context: 'char-generation', channel: channel.id });
       }
-    } catch (error) {
-      logError(logger, error, { context: 'char-generation' });
     }
   }, STEP_MS);
 
   // ────────────────  Startup  ───────────────────────────────────────────────
+  dictionaries.watch();
+
   http.listen(HTTP_PORT, () => {
     logPerformance(startupLogger, 'server-startup', startTime);
     startupLogger.info({
@@ -298,8 +342,10 @@ try {
     logger.info('SIGTERM received, shutting down gracefully');
     
     try {
-      await wordStore.close();
-      await store.close();
+      dictionaries.close();
+      for (const channel of channels.values()) {
+        await channel.close();
+      }
       logger.info('Cleanup completed successfully');
       process.exit(0);
     } catch (error) {
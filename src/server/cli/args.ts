@@ -0,0 +1,18 @@
+/** Numeric flags shared by the CLIs; a bad value throws before any work is done. */
+
+/** `--name` as a non-negative integer, or `fallback` when it was not given. */
+export function integerArg<T extends number | undefined>(name: string, value: string | undefined, fallback: T): number | T {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(n)) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return n;
+}
+
+/** Throws unless `[start, end)` is a range; either bound may be left open. */
+export function checkRange(startName: string, start: number | undefined, endName: string, end: number | undefined): void {
+  if (start !== undefined && end !== undefined && end < start) {
+    throw new Error(`--${endName} (${end}) must not be below --${startName} (${start})`);
+  }
+}
@@ -0,0 +1,71 @@
+// ===========================================================================
+//  src/server/cli/audit.ts   (replay the RNG against the stored chunks)
+//
+//  npm run audit -- [--channel ID] [--start N] [--end N] [--resume]
+//    --channel channel to audit (default "main")
+//    --start   first index to verify (default 0)
+//    --end     one past the last index (default: current cursor)
+//    --resume  continue from the checkpoint in meta/audit
+//  Exit code 0 when the range matches, 1 on a mismatch or error.
+// ===========================================================================
+
+import { parseArgs } from "node:util";
+import { loadStorageConfig, openChunkStore } from "../storage/backend";
+import { channelNamespace, DEFAULT_CHANNEL_ID } from "../config";
+import { loadStreamGenerator } from "../core/generator-config";
+import { IntegrityAudit } from "../core/integrity-audit";
+import { auditLogger as logger, logError } from "../utils/logger";
+import { checkRange, integerArg } from "./args";
+
+const { values } = parseArgs({
+  options: {
+    channel: { type: "string", default: DEFAULT_CHANNEL_ID },
+    start: { type: "string" },
+    end: { type: "string" },
+    resume: { type: "boolean", default: false },
+  },
+});
+
+// The server owns the chunk WAL; a tool replaying it would race the live stream
+const store = await openChunkStore({ ...loadStorageConfig(), walDir: undefined }, channelNamespace(values.channel));
+
+try {
+  const generator = await loadStreamGenerator(store);
+  if (!generator) {
+    logger.info('Store is empty, nothing to audit');
+    process.exit(0);
+  }
+
+  const start = integerArg("start", values.start, 0);
+  const end = integerArg("end", values.end, store.cursor);
+  checkRange("start", start, "end", end);
+
+  const audit = values.resume
+    ? await IntegrityAudit.fromCheckpoint(store, generator)
+    : new IntegrityAudit(store, generator, { start, end });
+
+  if (!audit) {
+    logger.error('No audit checkpoint to resume from');
+    process.exit(1);
+  }
+
+  // Ctrl‑C → checkpoint and stop; re-run with --resume to continue
+  process.once("SIGINT", () => audit.pause());
+
+  let lastReport = 0;
+  audit.on("progress", p => {
+    if (Date.now() - lastReport < 5_000) return;
+    lastReport = Date.now();
+    logger.info({ position: p.position, end: p.end, rate: p.rate, etaSec: p.etaSec }, 'Audit progress');
+  });
+
+  const result = await audit.start();
+  console.log(JSON.stringify(result, null, 2));
+
+  await store.close();
+  process.exit(result.status === "completed" || result.status === "paused" ? 0 : 1);
+} catch (error) {
+  logError(logger, error, { context: 'audit-cli' });
+  await store.close();
+  process.exit(1);
+}
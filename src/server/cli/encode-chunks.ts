@@ -0,0 +1,56 @@
+// ===========================================================================
+//  src/server/cli/encode-chunks.ts   (re-encode chunks with the chunk codec)
+//
+//  npm run encode-chunks -- [--channel ID] [--from ID] [--to ID]
+//    --channel  channel to migrate (default "main")
+//    --from     first chunk id to re-encode (default 0)
+//    --to       one past the last chunk id (default: all finished chunks)
+//  Chunks already in the current encoding are skipped, so an interrupted
+//  run can simply be started again (or resumed with --from). Safe while
+//  the server runs: finished chunks never change.
+// ===========================================================================
+
+import { parseArgs } from "node:util";
+import { CHUNK_SIZE } from "../storage/chunk-store";
+import { loadStorageConfig, openChunkStore } from "../storage/backend";
+import { channelNamespace, DEFAULT_CHANNEL_ID } from "../config";
+import { encodeLogger as logger, logError } from "../utils/logger";
+import { checkRange, integerArg } from "./args";
+
+const { values } = parseArgs({
+  options: {
+    channel: { type: "string", default: DEFAULT_CHANNEL_ID },
+    from: { type: "string" },
+    to: { type: "string" },
+  },
+});
+
+// The server owns the chunk WAL; a tool replaying it would race the live stream
+const store = await openChunkStore({ ...loadStorageConfig(), walDir: undefined }, channelNamespace(values.channel));
+
+try {
+  const finished = Math.floor(store.cursor / CHUNK_SIZE);
+  const from = integerArg("from", values.from, 0);
+  const until = integerArg("to", values.to, undefined);
+  checkRange("from", from, "to", until);
+  const to = Math.min(until ?? finished, finished);
+
+  let reencoded = 0;
+  let lastReport = Date.now();
+  for (let id = from; id < to; id++) {
+    if (await store.reencodeChunk(id)) reencoded++;
+
+    if (Date.now() - lastReport >= 5_000) {
+      lastReport = Date.now();
+      logger.info({ chunkId: id, to, reencoded }, 'Encode progress');
+    }
+  }
+
+  console.log(JSON.stringify({ from, to, checked: Math.max(0, to - from), reencoded }, null, 2));
+  await store.close();
+  process.exit(0);
+} catch (error) {
+  logError(logger, error, { context: 'encode-chunks-cli' });
+  await store.close();
+  process.exit(1);
+}
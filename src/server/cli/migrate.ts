@@ -0,0 +1,97 @@
+// ===========================================================================
+//  src/server/cli/migrate.ts   (copy a channel from one storage backend to another)
+//
+//  npm run migrate -- --from BACKEND --to BACKEND [--channel ID]
+//                     [--from-dir DIR] [--to-dir DIR]
+//                     [--from-sqlite FILE] [--to-sqlite FILE] [--dry-run]
+//    --from / --to  firestore | file | sqlite | memory
+//    --channel      channel to copy (default "main")
+//    --*-dir        file backend root (default MONKEY_DATA_DIR)
+//    --*-sqlite     SQLite database (default <dir>/monkey.sqlite)
+//    --dry-run      report what would be copied, write nothing
+//  Copies chunks, cursor, detector snapshot, stream meta and words, then
+//  compares every chunk hash and word. Run it again to resume an
+//  interrupted copy. Stop the server first: the copy ends at the source
+//  cursor seen at the start. Leaderboard stats and pattern hits are not
+//  copied; the channel rebuilds them from the words and the text.
+//  Prints a JSON report. Exit code 0 when verified (or on a dry run), 2
+//  when the target differs from the source, 1 on error.
+// ===========================================================================
+
+import { parseArgs } from "node:util";
+import path from "node:path";
+import { loadStorageConfig, openChunkStore, openWordStore, type StorageConfig } from "../storage/backend";
+import { channelNamespace, DEFAULT_CHANNEL_ID } from "../config";
+import { migrateStore, type MigrationEndpoint } from "../core/store-migration";
+import { migrateLogger as logger, logError } from "../utils/logger";
+
+const { values } = parseArgs({
+  options: {
+    from: { type: "string" },
+    to: { type: "string" },
+    channel: { type: "string", default: DEFAULT_CHANNEL_ID },
+    "from-dir": { type: "string" },
+    "to-dir": { type: "string" },
+    "from-sqlite": { type: "string" },
+    "to-sqlite": { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+/** Backend settings from the flags, falling back to the MONKEY_* variables. */
+function storageFor(backend: string, dir: string | undefined, sqliteFile: string | undefined): StorageConfig {
+  const storage = loadStorageConfig({
+    ...process.env,
+    MONKEY_STORAGE: backend,
+    MONKEY_DATA_DIR: dir ?? process.env.MONKEY_DATA_DIR,
+    // A --*-dir moves the default database along with it
+    MONKEY_SQLITE_FILE: sqliteFile ?? (dir ? undefined : process.env.MONKEY_SQLITE_FILE),
+  });
+  // The server owns the chunk WAL; a tool replaying it would race the live stream
+  return { ...storage, walDir: undefined };
+}
+
+/** What the target records as its source, so resumes can't mix streams. */
+function describe(storage: StorageConfig): string {
+  switch (storage.backend) {
+    case "file":      return `file:${path.resolve(storage.dataDir)}`;
+    case "sqlite":    return `sqlite:${path.resolve(storage.sqliteFile)}`;
+    case "firestore":
+    case "memory":    return storage.backend;
+  }
+}
+
+async function open(storage: StorageConfig): Promise<MigrationEndpoint> {
+  const namespace = channelNamespace(values.channel);
+  return { chunks: await openChunkStore(storage, namespace), words: openWordStore(storage, namespace) };
+}
+
+async function close(endpoint: MigrationEndpoint | undefined) {
+  await endpoint?.words.close();
+  await endpoint?.chunks.close();
+}
+
+let source: MigrationEndpoint | undefined;
+let target: MigrationEndpoint | undefined;
+try {
+  if (!values.from || !values.to) throw new Error("Both --from and --to are required");
+  const from = storageFor(values.from, values["from-dir"], values["from-sqlite"]);
+  const to = storageFor(values.to, values["to-dir"], values["to-sqlite"]);
+  if (describe(from) === describe(to)) {
+    throw new Error(`Source and target are the same store (${describe(from)})`);
+  }
+
+  source = await open(from);
+  target = await open(to);
+  const report = await migrateStore(source, target, { source: describe(from), dryRun: values["dry-run"] });
+  await close(target);
+  await close(source);
+
+  console.log(JSON.stringify({ channel: values.channel, from: describe(from), to: describe(to), ...report }, null, 2));
+  process.exit(!report.verification || report.verification.ok ? 0 : 2);
+} catch (error) {
+  logError(logger, error, { context: 'migrate-cli' });
+  await close(target);
+  await close(source);
+  process.exit(1);
+}
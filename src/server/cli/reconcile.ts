@@ -0,0 +1,68 @@
+// ===========================================================================
+//  src/server/cli/reconcile.ts   (diff the words collection against the text)
+//
+//  npm run reconcile -- [--channel ID] [--start N] [--end N] [--nested] [--fix] [--limit N]
+//    --channel  channel to check (default "main")
+//    --start    first index whose words are checked (default 0)
+//    --end      one past the last index (default: current cursor)
+//    --nested   also re-detect nested words (default: the channel's nestedWords)
+//    --fix      write missing / corrected words and delete extra ones
+//    --limit    words listed per difference kind in the report (default 100)
+//  Prints a JSON report. Exit code 0 when the index matches (or was fixed),
+//  2 when differences were found and left alone, 1 on error. Restart the
+//  server after --fix to pick up the changes.
+// ===========================================================================
+
+import { parseArgs } from "node:util";
+import { loadStorageConfig, openChunkStore, openWordStore } from "../storage/backend";
+import { channelNamespace, channelNestedWords, DEFAULT_CHANNEL_ID } from "../config";
+import { loadStreamGenerator } from "../core/generator-config";
+import { reconcileWords } from "../core/word-reconcile";
+import { repairLogger as logger, logError } from "../utils/logger";
+import { checkRange, integerArg } from "./args";
+
+const { values } = parseArgs({
+  options: {
+    channel: { type: "string", default: DEFAULT_CHANNEL_ID },
+    start: { type: "string" },
+    end: { type: "string" },
+    nested: { type: "boolean" },
+    fix: { type: "boolean", default: false },
+    limit: { type: "string" },
+  },
+});
+
+// The server owns the chunk WAL; a tool replaying it would race the live stream
+const storage = { ...loadStorageConfig(), walDir: undefined };
+const store = await openChunkStore(storage, channelNamespace(values.channel));
+const wordStore = openWordStore(storage, channelNamespace(values.channel));
+
+try {
+  const generator = await loadStreamGenerator(store);
+  if (!generator) {
+    logger.info('Store is empty, nothing to reconcile');
+    process.exit(0);
+  }
+
+  const start = integerArg("start", values.start, undefined);
+  const end = integerArg("end", values.end, undefined);
+  checkRange("start", start, "end", end);
+
+  const report = await reconcileWords(store, wordStore, generator, {
+    start,
+    end,
+    nested: values.nested ?? channelNestedWords(values.channel),
+    fix: values.fix,
+    limit: integerArg("limit", values.limit, undefined),
+  });
+  await wordStore.close();
+  await store.close();
+
+  console.log(JSON.stringify({ channel: values.channel, ...report }, null, 2));
+  const { missing, extra, mismatched } = report.totals;
+  process.exit(report.fixed || missing + extra + mismatched === 0 ? 0 : 2);
+} catch (error) {
+  logError(logger, error, { context: 'reconcile-cli' });
+  await store.close();
+  process.exit(1);
+}
@@ -0,0 +1,78 @@
+// ===========================================================================
+//  src/server/cli/repair.ts   (rebuild lost / truncated chunks from the seed)
+//
+//  npm run repair -- [--channel ID] [--from ID] [--to ID] [--verify] [--dry-run] [--nested]
+//    --channel  channel to repair (default "main")
+//    --from     first chunk id to inspect (default 0)
+//    --to       one past the last chunk id (default: all finished chunks)
+//    --verify   also rewrite full-length chunks whose text is wrong
+//    --dry-run  only report what would be rewritten
+//    --nested   also re-detect nested words (default: the channel's nestedWords)
+//  Re-detected words over repaired ranges replace the stored ones and the
+//  leaderboards are updated to match; restart the server afterwards to
+//  pick them up.
+// ===========================================================================
+
+import { parseArgs } from "node:util";
+import { loadStorageConfig, openChunkStore, openWordStatsStore, openWordStore } from "../storage/backend";
+import { channelNamespace, channelNestedWords, DEFAULT_CHANNEL_ID } from "../config";
+import { loadStreamGenerator } from "../core/generator-config";
+import { repairChunks } from "../core/chunk-repair";
+import { Leaderboards } from "../core/leaderboards";
+import { repairLogger as logger, logError } from "../utils/logger";
+import { checkRange, integerArg } from "./args";
+
+const { values } = parseArgs({
+  options: {
+    channel: { type: "string", default: DEFAULT_CHANNEL_ID },
+    from: { type: "string" },
+    to: { type: "string" },
+    verify: { type: "boolean", default: false },
+    "dry-run": { type: "boolean", default: false },
+    nested: { type: "boolean" },
+  },
+});
+
+// The server owns the chunk WAL; a tool replaying it would race the live stream
+const storage = { ...loadStorageConfig(), walDir: undefined };
+const store = await openChunkStore(storage, channelNamespace(values.channel));
+const wordStore = openWordStore(storage, channelNamespace(values.channel));
+
+try {
+  const generator = await loadStreamGenerator(store);
+  if (!generator) {
+    logger.info('Store is empty, nothing to repair');
+    process.exit(0);
+  }
+
+  const fromChunk = integerArg("from", values.from, undefined);
+  const toChunk = integerArg("to", values.to, undefined);
+  checkRange("from", fromChunk, "to", toChunk);
+
+  const report = await repairChunks(store, wordStore, generator, {
+    fromChunk,
+    toChunk,
+    verify: values.verify,
+    dryRun: values["dry-run"],
+    nested: values.nested ?? channelNestedWords(values.channel),
+  });
+
+  if (report.added.length > 0 || report.removed.length > 0) {
+    // Removed hits can only be taken back out of the counts by a rebuild; loading
+    // first keeps each word's first-seen time
+    const hits = await wordStore.loadWords();
+    const statsStore = openWordStatsStore(storage, channelNamespace(values.channel));
+    const leaderboards = await Leaderboards.load(statsStore, hits, wordStore.getLastPersistedPosition());
+    await leaderboards.rebuild(hits);
+    await leaderboards.close();
+  }
+  await wordStore.close();
+  await store.close();
+
+  console.log(JSON.stringify({ ...report, added: report.added.length, removed: report.removed.length }, null, 2));
+  process.exit(0);
+} catch (error) {
+  logError(logger, error, { context: 'repair-cli' });
+  await store.close();
+  process.exit(1);
+}
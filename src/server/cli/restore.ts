@@ -0,0 +1,62 @@
+// ===========================================================================
+//  src/server/cli/restore.ts   (restore a channel from a snapshot archive)
+//
+//  npm run restore -- --in FILE [--channel ID] [--force] [--dry-run]
+//    --in       archive written by `npm run snapshot`
+//    --channel  channel to restore into (default "main")
+//    --force    roll back a channel whose cursor is ahead of the snapshot
+//    --dry-run  check the archive and report what would change
+//  Restores into whichever backend MONKEY_STORAGE selects, so an archive
+//  taken on one backend moves to any other. The archive is checked in
+//  full before anything is written, and chunks the channel already holds
+//  identically are kept. Stop the server first and start it afterwards.
+//  Prints a JSON report. Exit code 0 when restored (or checked), 2 when
+//  refused because the channel is newer, 1 on error.
+// ===========================================================================
+
+import { parseArgs } from "node:util";
+import {
+  loadStorageConfig, openChunkStore, openPatternStore, openWordStatsStore, openWordStore,
+} from "../storage/backend";
+import { channelNamespace, DEFAULT_CHANNEL_ID } from "../config";
+import { NewerCursorError, restoreSnapshot } from "../core/snapshot";
+import { snapshotLogger as logger, logError } from "../utils/logger";
+
+const { values } = parseArgs({
+  options: {
+    in: { type: "string" },
+    channel: { type: "string", default: DEFAULT_CHANNEL_ID },
+    force: { type: "boolean", default: false },
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+// With the server stopped the chunk WAL is ours: replayed on open, cleared by a rewind
+const storage = loadStorageConfig();
+const namespace = channelNamespace(values.channel);
+const store = await openChunkStore(storage, namespace);
+const wordStore = openWordStore(storage, namespace);
+const patternStore = openPatternStore(storage, namespace);
+
+try {
+  if (!values.in) throw new Error("--in is required");
+
+  const report = await restoreSnapshot(values.in, {
+    chunks: store,
+    words: wordStore,
+    patterns: patternStore,
+    stats: openWordStatsStore(storage, namespace),
+  }, { force: values.force, dryRun: values["dry-run"] });
+  await patternStore.close();
+  await wordStore.close();
+  await store.close();
+
+  console.log(JSON.stringify({ channel: values.channel, file: values.in, ...report }, null, 2));
+  process.exit(0);
+} catch (error) {
+  logError(logger, error, { context: 'restore-cli' });
+  await patternStore.close();
+  await wordStore.close();
+  await store.close();
+  process.exit(error instanceof NewerCursorError ? 2 : 1);
+}
@@ -0,0 +1,58 @@
+// ===========================================================================
+//  src/server/cli/snapshot.ts   (export a channel to a portable archive)
+//
+//  npm run snapshot -- --out FILE [--channel ID]
+//    --out      archive to write (gzip'd JSON lines, replaced atomically)
+//    --channel  channel to export (default "main")
+//  Takes chunks up to the durable cursor, the detector state saved with
+//  it, the generator and other stream meta, words, pattern hits and
+//  leaderboard stats. Only reads, but on the file backend stop the server
+//  first: opening the store drops chars past the cursor the server is
+//  still committing. Prints the archive's summary as JSON; exit code 1
+//  on error. Restore it with `npm run restore`.
+// ===========================================================================
+
+import { parseArgs } from "node:util";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  loadStorageConfig, openChunkStore, openPatternStore, openWordStatsStore, openWordStore,
+} from "../storage/backend";
+import { channelNamespace, DEFAULT_CHANNEL_ID } from "../config";
+import { writeSnapshot } from "../core/snapshot";
+import { snapshotLogger as logger, logError } from "../utils/logger";
+
+const { values } = parseArgs({
+  options: {
+    out: { type: "string" },
+    channel: { type: "string", default: DEFAULT_CHANNEL_ID },
+  },
+});
+
+// The server owns the chunk WAL; a tool replaying it would race the live stream
+const storage = { ...loadStorageConfig(), walDir: undefined };
+const namespace = channelNamespace(values.channel);
+const store = await openChunkStore(storage, namespace);
+const wordStore = openWordStore(storage, namespace);
+
+try {
+  if (!values.out) throw new Error("--out is required");
+  await fs.mkdir(path.dirname(values.out), { recursive: true });
+
+  const summary = await writeSnapshot({
+    chunks: store,
+    words: wordStore,
+    patterns: openPatternStore(storage, namespace),
+    stats: openWordStatsStore(storage, namespace),
+  }, values.out);
+  await wordStore.close();
+  await store.close();
+
+  console.log(JSON.stringify({ channel: values.channel, file: values.out, ...summary }, null, 2));
+  process.exit(0);
+} catch (error) {
+  logError(logger, error, { context: 'snapshot-cli' });
+  await wordStore.close();
+  await store.close();
+  process.exit(1);
+}
@@ -0,0 +1,132 @@
+// ===========================================================================
+//  src/server/config.ts   (channel definitions, ENV / JSON driven)
+// ===========================================================================
+
+import fs from "node:fs";
+import { resolveAlphabet } from "./core/alphabet";
+import {
+  parseGeneratorOverride,
+  parseRngAlgorithm,
+  parseSeed,
+  DEFAULT_GENERATOR,
+  type GeneratorConfig,
+  type GeneratorOverride,
+} from "./core/generator-config";
+import { DEFAULT_RATE, type RateSpec } from "./core/rate-policy";
+import type { CatchUpOptions } from "./core/catch-up";
+import { PatternEngine, DEFAULT_PATTERNS, type PatternSpec } from "./core/patterns";
+import { loadStorageConfig, type StorageConfig } from "./storage/backend";
+
+/** Everything that makes one monkey stream independent of the others. */
+export interface ChannelConfig {
+  id: string;
+  /** Storage prefix; "" keeps the original top-level collections. */
+  namespace: string;
+  /** Backend holding the channel's chunks (shared by all channels). */
+  storage: StorageConfig;
+  generator: GeneratorConfig;
+  generatorOverride: GeneratorOverride;
+  rate: RateSpec;
+  /** Generate the chars missed during downtime on boot; undefined = off. */
+  catchUp?: CatchUpOptions;
+  /** Detect (and store) nested words as well as the longest one. */
+  nestedWords: boolean;
+  /** Pattern plugins run next to the word detector. */
+  patterns: PatternSpec[];
+}
+
+/** One entry of the MONKEY_CHANNELS_FILE array; omitted fields use defaults. */
+interface RawChannelConfig {
+  id: string;
+  seed?: string | number;
+  rng?: string;
+  alphabet?: string;
+  generatorOverride?: string;
+  rate?: RateSpec;
+  catchUp?: boolean | CatchUpOptions;
+  nestedWords?: boolean;
+  patterns?: PatternSpec[];
+}
+
+const CHANNEL_ID = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+/** The channel that existed before channels did; it owns the root collections. */
+export const DEFAULT_CHANNEL_ID = "main";
+
+export function channelNamespace(id: string): string {
+  return id === DEFAULT_CHANNEL_ID ? "" : `channels/${id}/`;
+}
+
+function parseChannel(raw: RawChannelConfig, storage: StorageConfig): ChannelConfig {
+  if (!CHANNEL_ID.test(raw.id)) {
+    throw new Error(`Invalid channel id "${raw.id}" (lowercase letters, digits and dashes)`);
+  }
+  const patterns = raw.patterns ?? DEFAULT_PATTERNS;
+  new PatternEngine(patterns); // fail at startup on a bad plugin spec
+
+  return {
+    id: raw.id,
+    namespace: channelNamespace(raw.id),
+    storage,
+    generator: {
+      seed: parseSeed(String(raw.seed ?? DEFAULT_GENERATOR.seed)),
+      algorithm: parseRngAlgorithm(raw.rng ?? DEFAULT_GENERATOR.algorithm),
+      alphabet: resolveAlphabet(raw.alphabet ?? DEFAULT_GENERATOR.alphabet.name),
+    },
+    generatorOverride: parseGeneratorOverride(raw.generatorOverride ?? "refuse"),
+    rate: raw.rate ?? DEFAULT_RATE,
+    catchUp: raw.catchUp === true ? {} : raw.catchUp || undefined,
+    nestedWords: raw.nestedWords ?? false,
+    patterns,
+  };
+}
+
+/**
+ * Whether channel `id` detects nested words, for CLIs that re-detect its
+ * words: left out, they would count every stored nested hit as extra.
+ * Channels missing from the config (retired ones) default to off.
+ */
+export function channelNestedWords(id: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  return loadChannelConfigs(env).find(channel => channel.id === id)?.nestedWords ?? false;
+}
+
+/**
+ * Channels come from the JSON array in MONKEY_CHANNELS_FILE when set,
+ * otherwise a single "main" channel is built from the MONKEY_* variables
+ * (MONKEY_RATE holds the rate policy as JSON, MONKEY_CATCH_UP=true enables
+ * catch-up, optionally bounded by MONKEY_CATCH_UP_MAX_CHARS;
+ * MONKEY_NESTED_WORDS=true enables nested word hits; MONKEY_PATTERNS holds
+ * the pattern plugin list as JSON). Storage is shared by every channel
+ * and comes from MONKEY_STORAGE / MONKEY_DATA_DIR (see loadStorageConfig).
+ * The first channel is the default one served by the un-prefixed routes.
+ */
+export function loadChannelConfigs(env: NodeJS.ProcessEnv = process.env): ChannelConfig[] {
+  const file = env.MONKEY_CHANNELS_FILE;
+
+  const raw: RawChannelConfig[] = file
+    ? JSON.parse(fs.readFileSync(file, "utf8"))
+    : [{
+        id: DEFAULT_CHANNEL_ID,
+        seed: env.MONKEY_SEED,
+        rng: env.MONKEY_RNG,
+        alphabet: env.MONKEY_ALPHABET,
+        generatorOverride: env.MONKEY_GENERATOR_OVERRIDE,
+        rate: env.MONKEY_RATE ? JSON.parse(env.MONKEY_RATE) : undefined,
+        catchUp: env.MONKEY_CATCH_UP === "true"
+          ? { maxChars: env.MONKEY_CATCH_UP_MAX_CHARS ? Number(env.MONKEY_CATCH_UP_MAX_CHARS) : undefined }
+          : undefined,
+        nestedWords: env.MONKEY_NESTED_WORDS === "true",
+        patterns: env.MONKEY_PATTERNS ? JSON.parse(env.MONKEY_PATTERNS) : undefined,
+      }];
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error(`${file} must contain a non-empty array of channels`);
+  }
+
+  const storage = loadStorageConfig(env);
+  const channels = raw.map(entry => parseChannel(entry, storage));
+  const ids = new Set(channels.map(c => c.id));
+  if (ids.size !== channels.length) throw new Error("Duplicate channel ids in channel config");
+
+  return channels;
+}
@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AhoCorasick } from "./aho-corasick";
+
+const WORDS = ["a", "ab", "abc", "abcd", "bc", "bcd", "cd", "d", "dab", "cab", "bca", "aaaa", "abab", "baba"];
+
+/** Deterministic text over `alphabet` (a small LCG, so failures reproduce). */
+function text(length: number, alphabet: string, seed = 1): string {
+  let out = "";
+  let x = seed;
+  for (let i = 0; i < length; i++) {
+    x = (x * 1103515245 + 12345) % 2 ** 31;
+    out += alphabet[x % alphabet.length];
+  }
+  return out;
+}
+
+/** Every listed word ending at each position, longest first, by brute force. */
+function reference(words: string[], input: string): string[][] {
+  const set = new Set(words);
+  const maxLength = Math.max(...words.map(w => w.length));
+  const out: string[][] = [];
+  for (let end = 1; end <= input.length; end++) {
+    const here: string[] = [];
+    for (let n = Math.min(maxLength, end); n >= 1; n--) {
+      const w = input.slice(end - n, end);
+      if (set.has(w)) here.push(w);
+    }
+    out.push(here);
+  }
+  return out;
+}
+
+describe("AhoCorasick", () => {
+  it("finds the same words as a brute-force scan at every position", () => {
+    const automaton = new AhoCorasick(WORDS);
+    const input = text(5000, "abcd");
+    const expected = reference(WORDS, input);
+
+    let state = AhoCorasick.ROOT;
+    for (let i = 0; i < input.length; i++) {
+      state = automaton.step(state, input[i]);
+      assert.deepEqual(automaton.matches(state), expected[i], `position ${i}`);
+      assert.equal(automaton.longestMatch(state), expected[i][0], `position ${i}`);
+    }
+  });
+
+  it("recovers after characters no word contains", () => {
+    const automaton = new AhoCorasick(["cat", "at"]);
+    let state = AhoCorasick.ROOT;
+    const found: (string | undefined)[] = [];
+    for (const ch of "cxcat-at") {
+      state = automaton.step(state, ch);
+      found.push(automaton.longestMatch(state));
+    }
+    assert.deepEqual(found, [undefined, undefined, undefined, undefined, "cat", undefined, undefined, "at"]);
+  });
+
+  it("counts distinct words and ignores empty ones", () => {
+    const automaton = new AhoCorasick(["abc", "", "abc", "ab", "abcdef"]);
+    assert.equal(automaton.size, 3);
+    assert.equal(automaton.maxLength, 6);
+    assert.ok(automaton.has("ab"));
+    assert.ok(!automaton.has("abcd"));
+    assert.ok(!automaton.has(""));
+  });
+});
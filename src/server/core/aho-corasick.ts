@@ -0,0 +1,122 @@
+/**
+ * Aho–Corasick automaton over a fixed word list.
+ *
+ * States are plain integers (0 = root), so a detector only has to carry one
+ * number between characters. For every state we precompute the longest
+ * word that is a suffix of the text read so far, which makes "longest word
+ * ending here" an O(1) lookup after an amortised O(1) transition — no
+ * matter how long the words are.
+ */
+export class AhoCorasick {
+  static readonly ROOT = 0;
+
+  /** goto function: state → (char → state) */
+  private readonly next: Map<string, number>[] = [new Map()];
+  /** failure link: longest proper suffix that is also a trie node */
+  private fail: Int32Array = new Int32Array(0);
+  /** word spelled by a state when it is terminal */
+  private readonly terminal: (string | undefined)[] = [undefined];
+  /** state → terminal state of the longest word ending here (-1 = none) */
+  private longest: Int32Array = new Int32Array(0);
+
+  private _size = 0;
+  private _maxLength = 0;
+
+  constructor(words: Iterable<string>) {
+    for (const word of words) this.insert(word);
+    this.build();
+  }
+
+  /** Number of distinct words. */
+  get size() { return this._size; }
+
+  /** Length of the longest word. */
+  get maxLength() { return this._maxLength; }
+
+  has(word: string): boolean {
+    let state = AhoCorasick.ROOT;
+    for (const ch of word) {
+      const to = this.next[state].get(ch);
+      if (to === undefined) return false;
+      state = to;
+    }
+    return this.terminal[state] !== undefined;
+  }
+
+  /** Follow `ch` from `state`, falling back along failure links. */
+  step(state: number, ch: string): number {
+    for (;;) {
+      const to = this.next[state].get(ch);
+      if (to !== undefined) return to;
+      if (state === AhoCorasick.ROOT) return AhoCorasick.ROOT;
+      state = this.fail[state];
+    }
+  }
+
+  /** Longest word ending at the current position, if any. */
+  longestMatch(state: number): string | undefined {
+    const t = this.longest[state];
+    return t < 0 ? undefined : this.terminal[t];
+  }
+
+  /**
+   * Every word ending at the current position, longest first. Walks the
+   * chain of terminal suffixes, so it costs one step per reported word.
+   */
+  matches(state: number): string[] {
+    const out: string[] = [];
+    for (let t = this.longest[state]; t >= 0; t = this.longest[this.fail[t]]) {
+      out.push(this.terminal[t]!);
+    }
+    return out;
+  }
+
+  /* ---------- construction ------------------------------------- */
+
+  private insert(word: string): void {
+    if (word.length === 0) return;
+    let state = AhoCorasick.ROOT;
+    for (const ch of word) {
+      let to = this.next[state].get(ch);
+      if (to === undefined) {
+        to = this.next.length;
+        this.next.push(new Map());
+        this.terminal.push(undefined);
+        this.next[state].set(ch, to);
+      }
+      state = to;
+    }
+    if (this.terminal[state] === undefined) {
+      this.terminal[state] = word;
+      this._size++;
+      this._maxLength = Math.max(this._maxLength, word.length);
+    }
+  }
+
+  /** BFS from the root to fill failure links and longest-suffix outputs. */
+  private build(): void {
+    const n = this.next.length;
+    this.fail = new Int32Array(n);
+    this.longest = new Int32Array(n).fill(-1);
+
+    const queue: number[] = [];
+    for (const child of this.next[AhoCorasick.ROOT].values()) {
+      this.fail[child] = AhoCorasick.ROOT;
+      queue.push(child);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      this.longest[state] = this.terminal[state] !== undefined
+        ? state
+        : this.longest[this.fail[state]];
+
+      for (const [ch, child] of this.next[state]) {
+        let f = this.fail[state];
+        while (f !== AhoCorasick.ROOT && !this.next[f].has(ch)) f = this.fail[f];
+        this.fail[child] = this.next[f].get(ch) ?? AhoCorasick.ROOT;
+        queue.push(child);
+      }
+    }
+  }
+}
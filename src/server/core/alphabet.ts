@@ -0,0 +1,173 @@
+import * as prand from "pure-rand";
+
+/**
+ * Serializable description of an alphabet. This is what gets persisted next
+ * to the stream so a restart can rebuild the exact same distribution.
+ */
+export interface AlphabetSpec {
+  name: string;
+  chars: string;
+  /** Integer weight per char (same length as `chars`). Omitted → uniform. */
+  weights?: number[];
+}
+
+/**
+ * A character set plus a (possibly weighted) distribution over it.
+ * Every sample consumes exactly ONE draw from the RNG, so `prand.skipN`
+ * stays a valid way to fast-forward to any stream position.
+ */
+export class Alphabet {
+  readonly name: string;
+  readonly chars: string;
+  readonly weights: readonly number[];
+
+  /** `chars` split into single symbols */
+  private readonly symbols: string[];
+  /** cumulative[i] = weights[0] + … + weights[i] */
+  private readonly cumulative: number[];
+  private readonly total: number;
+
+  constructor(spec: AlphabetSpec) {
+    const chars = spec.chars.split("");
+    if (chars.length === 0) throw new Error(`Alphabet "${spec.name}" is empty`);
+    // Stores index text by UTF-16 length, so every symbol must be one unit.
+    if (/[\uD800-\uDFFF]/.test(spec.chars)) {
+      throw new Error(`Alphabet "${spec.name}" contains characters outside the BMP`);
+    }
+    if (new Set(chars).size !== chars.length) {
+      throw new Error(`Alphabet "${spec.name}" contains duplicate characters`);
+    }
+
+    const weights = spec.weights ?? chars.map(() => 1);
+    if (weights.length !== chars.length) {
+      throw new Error(`Alphabet "${spec.name}" has ${chars.length} chars but ${weights.length} weights`);
+    }
+    if (weights.some(w => !Number.isInteger(w) || w <= 0)) {
+      throw new Error(`Alphabet "${spec.name}" weights must be positive integers`);
+    }
+
+    this.name = spec.name;
+    this.chars = spec.chars;
+    this.weights = weights;
+    this.symbols = chars;
+
+    let acc = 0;
+    this.cumulative = weights.map(w => (acc += w));
+    this.total = acc;
+  }
+
+  get size() { return this.symbols.length; }
+
+  /** Draw one character, returning it together with the advanced RNG. */
+  sample(rng: prand.RandomGenerator): [string, prand.RandomGenerator] {
+    const [value, nextRng] = rng.next();
+    return [this.symbols[this.indexFor(this.bucket(value))], nextRng];
+  }
+
+  /**
+   * Draw `n` characters at once. Same sequence as `n` calls to `sample`,
+   * but mutates a single clone of the RNG instead of allocating per draw.
+   */
+  sampleMany(rng: prand.RandomGenerator, n: number): [string, prand.RandomGenerator] {
+    const mutable = rng.clone();
+    let text = "";
+    for (let i = 0; i < n; i++) {
+      text += this.symbols[this.indexFor(this.bucket(mutable.unsafeNext()))];
+    }
+    return [text, mutable];
+  }
+
+  /** Probability of drawing `ch` in a single sample (0 if not in the set). */
+  probability(ch: string): number {
+    const i = this.symbols.indexOf(ch);
+    return i < 0 ? 0 : this.weights[i] / this.total;
+  }
+
+  /**
+   * How unlikely `text` is to be typed at a given position, as −log10 of
+   * its probability (uniform a–z: len · log10 26). Infinity if unreachable.
+   */
+  rarity(text: string): number {
+    let score = 0;
+    for (const ch of text) score -= Math.log10(this.probability(ch));
+    return score;
+  }
+
+  toSpec(): AlphabetSpec {
+    const uniform = this.weights.every(w => w === 1);
+    return uniform
+      ? { name: this.name, chars: this.chars }
+      : { name: this.name, chars: this.chars, weights: [...this.weights] };
+  }
+
+  /** Structural equality — same chars in the same order with the same weights. */
+  equals(other: Alphabet): boolean {
+    return this.chars === other.chars
+      && this.weights.length === other.weights.length
+      && this.weights.every((w, i) => w === other.weights[i]);
+  }
+
+  /**
+   * Map one raw 32-bit draw onto [0, total). Same offset and modulo as
+   * `uniformIntDistribution`, minus its rejection loop (which could take
+   * a second draw), so the bias is at most total / 2^32.
+   */
+  private bucket(value: number): number {
+    return (value + 0x80000000) % this.total;
+  }
+
+  /** Binary search the cumulative table for the bucket containing `r`. */
+  private indexFor(r: number): number {
+    let lo = 0;
+    let hi = this.cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (r < this.cumulative[mid]) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+}
+
+const LETTERS = "abcdefghijklmnopqrstuvwxyz";
+
+/** English letter frequencies (per 10 000 letters, Lewand). */
+const ENGLISH_LETTER_WEIGHTS = [
+  817, 149, 278, 425, 1270, 223, 202, 609, 697, 15, 77, 403, 241,
+  675, 751, 193, 10, 599, 633, 906, 276, 98, 236, 15, 197, 7,
+];
+
+/** Built-in alphabets, selectable by name (e.g. via `MONKEY_ALPHABET`). */
+export const ALPHABETS = {
+  /** The original monkey: uniform a–z. */
+  lowercase: new Alphabet({ name: "lowercase", chars: LETTERS }),
+  /** Uniform a–z plus space. */
+  "lowercase-space": new Alphabet({ name: "lowercase-space", chars: LETTERS + " " }),
+  /** a–z weighted by English letter frequency. */
+  english: new Alphabet({ name: "english", chars: LETTERS, weights: ENGLISH_LETTER_WEIGHTS }),
+  /** English letter frequency plus a space weighted at roughly one in every 5.5 characters. */
+  "english-space": new Alphabet({
+    name: "english-space",
+    chars: LETTERS + " ",
+    weights: [...ENGLISH_LETTER_WEIGHTS, 2_200],
+  }),
+} as const;
+
+export type BuiltinAlphabet = keyof typeof ALPHABETS;
+
+export const DEFAULT_ALPHABET = ALPHABETS.lowercase;
+
+/**
+ * Resolve an alphabet from config. Accepts a built-in name, or
+ * `custom:<chars>` for a uniform distribution over an arbitrary set.
+ */
+export function resolveAlphabet(name: string): Alphabet {
+  if (name.startsWith("custom:")) {
+    return new Alphabet({ name: "custom", chars: name.slice("custom:".length) });
+  }
+  const builtin = ALPHABETS[name as BuiltinAlphabet];
+  if (!builtin) {
+    throw new Error(`Unknown alphabet "${name}" (expected one of ${Object.keys(ALPHABETS).join(", ")} or custom:<chars>)`);
+  }
+  return builtin;
+}
@@ -0,0 +1,168 @@
+import { EventEmitter } from "events";
+import type { ChunkStore } from "../storage/chunk-store";
+import type { Monkey, MonkeyBatch } from "./monkey";
+import { createRatePolicy, type RateSpec } from "./rate-policy";
+import { catchUpLogger as logger, logError } from "../utils/logger";
+
+/** Meta key remembering the cursor a catch-up run is heading for. */
+export const CATCH_UP_META_KEY = "catch-up";
+
+/** Chars per nextBatch call while catching up (one chunk). */
+const CATCH_UP_BATCH = 8_192;
+/** Resolution used to integrate the rate policy over the downtime. */
+const ESTIMATE_STEP_MS = 60_000;
+
+interface CatchUpMeta {
+  targetCursor: number;
+}
+
+export interface CatchUpOptions {
+  /** Upper bound on how many chars one downtime may add. */
+  maxChars?: number;
+}
+
+export type CatchUpStatus = "running" | "completed" | "failed";
+
+export interface CatchUpProgress {
+  status: CatchUpStatus;
+  startCursor: number;
+  targetCursor: number;
+  generated: number;
+  remaining: number;
+  /** 0–1 */
+  progress: number;
+  rate: number;
+  etaSec: number | null;
+  error?: string;
+}
+
+/**
+ * Chars the policy would have typed between `from` and `to` (epoch ms)
+ * with nobody connected. Uses a fresh policy instance so stateful ones
+ * (capped-burst) aren't disturbed, integrating minute by minute.
+ */
+export function estimateMissedChars(spec: RateSpec, from: number, to: number): number {
+  const policy = createRatePolicy(spec);
+  let total = 0;
+  for (let t = from; t < to; t += ESTIMATE_STEP_MS) {
+    const dt = Math.min(ESTIMATE_STEP_MS, to - t);
+    const { charsPerMinute } = policy.evaluate({ realUsers: 0, syntheticUsers: 0, now: new Date(t) });
+    total += charsPerMinute * (dt / 60_000);
+  }
+  return Math.floor(total);
+}
+
+/**
+ * Types the characters "missed" while the server was down, as fast as the
+ * event loop allows. Every batch goes through the normal Monkey path, so
+ * the detector and listeners see it like live text.
+ *
+ * Events: "chars" (MonkeyBatch), "done" (CatchUpProgress)
+ */
+export class CatchUp extends EventEmitter {
+  private readonly store: ChunkStore;
+  private readonly monkey: Monkey;
+  private readonly startCursor: number;
+  private readonly targetCursor: number;
+
+  private status: CatchUpStatus = "running";
+  private error?: string;
+  private startedAt = 0;
+  private running?: Promise<CatchUpProgress>;
+
+  constructor(store: ChunkStore, monkey: Monkey, targetCursor: number) {
+    super();
+    this.store = store;
+    this.monkey = monkey;
+    this.startCursor = store.cursor;
+    this.targetCursor = targetCursor;
+  }
+
+  /**
+   * Work out how far behind the stream is: whatever an interrupted run
+   * still owed, plus the downtime since the cursor was last persisted.
+   * Returns undefined when there is nothing to do.
+   */
+  static async plan(
+    store: ChunkStore,
+    monkey: Monkey,
+    rate: RateSpec,
+    options: CatchUpOptions = {},
+  ): Promise<CatchUp | undefined> {
+    const lastSeen = store.persistedAt;
+    if (lastSeen === undefined) return undefined;
+
+    const meta = await store.readMeta<CatchUpMeta>(CATCH_UP_META_KEY);
+    const owed = Math.max(0, (meta?.targetCursor ?? 0) - store.cursor);
+    const missed = estimateMissedChars(rate, lastSeen, Date.now());
+    const total = Math.min(owed + missed, options.maxChars ?? Infinity);
+
+    logger.info({
+      cursor: store.cursor,
+      downtimeSec: Math.round((Date.now() - lastSeen) / 1000),
+      owed,
+      missed,
+      total,
+    }, 'Catch-up planned');
+
+    if (total <= 0) return undefined;
+
+    const targetCursor = store.cursor + total;
+    await store.writeMeta(CATCH_UP_META_KEY, { targetCursor } satisfies CatchUpMeta);
+    return new CatchUp(store, monkey, targetCursor);
+  }
+
+  get active(): boolean {
+    return this.status === "running";
+  }
+
+  start(): Promise<CatchUpProgress> {
+    this.running ??= this.run();
+    return this.running;
+  }
+
+  progress(): CatchUpProgress {
+    const total = this.targetCursor - this.startCursor;
+    const generated = this.store.cursor - this.startCursor;
+    const remaining = Math.max(0, this.targetCursor - this.store.cursor);
+    const elapsed = (Date.now() - this.startedAt) / 1000;
+    const rate = this.active && this.startedAt && elapsed > 0 ? generated / elapsed : 0;
+    return {
+      status: this.status,
+      startCursor: this.startCursor,
+      targetCursor: this.targetCursor,
+      generated,
+      remaining,
+      progress: total > 0 ? Math.min(1, generated / total) : 1,
+      rate: Math.round(rate),
+      etaSec: rate > 0 ? Math.ceil(remaining / rate) : null,
+      ...(this.error ? { error: this.error } : {}),
+    };
+  }
+
+  private async run(): Promise<CatchUpProgress> {
+    this.startedAt = Date.now();
+    logger.info({ from: this.startCursor, to: this.targetCursor }, 'Catch-up started');
+
+    try {
+      while (this.store.cursor < this.targetCursor) {
+        const n = Math.min(CATCH_UP_BATCH, this.targetCursor - this.store.cursor);
+        const batch: MonkeyBatch = await this.monkey.nextBatch(n);
+        this.emit("chars", batch);
+
+        // Let live requests and sockets breathe between batches
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      this.status = "completed";
+    } catch (error) {
+      this.status = "failed";
+      this.error = error instanceof Error ? error.message : String(error);
+      logError(logger, error, { context: 'catch-up', cursor: this.store.cursor });
+    }
+
+    const result = this.progress();
+    logger.info({ ...result, durationMs: Date.now() - this.startedAt }, 'Catch-up finished');
+    this.emit("done", result);
+    return result;
+  }
+}
@@ -0,0 +1,422 @@
+import { EventEmitter } from "events";
+import type { ChannelConfig } from "../config";
+import type { ChunkStore } from "../storage/chunk-store";
+import { openChunkStore, openPatternStore, openWordStatsStore, openWordStore } from "../storage/backend";
+import type { WordStore } from "../storage/word-store";
+import type { PatternStore } from "../storage/pattern-store";
+import { Monkey, type MonkeyBatch } from "./monkey";
+import { WordDetector, type WordDetectorOptions, type WordDetectorState, type WordHit } from "./word-detector";
+import { StartupScanner } from "./startup-scanner";
+import { IntegrityAudit } from "./integrity-audit";
+import { ReindexJob, type ReindexSink } from "./reindex-job";
+import { reconcileGeneratorConfig, type GeneratorConfig } from "./generator-config";
+import { createRatePolicy, type RatePolicy } from "./rate-policy";
+import { CatchUp } from "./catch-up";
+import { ChunkLedger } from "./chunk-ledger";
+import { Leaderboards } from "./leaderboards";
+import { PatternEngine, type PatternEngineState, type PatternHit } from "./patterns";
+import { PhraseWatcher, type PhraseComplete, type PhraseProgress, type PhraseWatcherState } from "./phrase-watcher";
+import { createLogger, logError, logPerformance, type Logger } from "../utils/logger";
+
+/**
+ * Detector state saved with every durable cursor write, so a restart
+ * resumes exactly where detection stopped instead of replaying context.
+ */
+interface DetectorSnapshot {
+  /** Chars consumed by the detectors; never past the saved cursor. */
+  position: number;
+  words: WordDetectorState;
+  phrases: PhraseWatcherState;
+  patterns: PatternEngineState;
+}
+
+/**
+ * One independent monkey stream: its own generator, chunk namespace,
+ * detector and word collection. Owns everything `app.ts` used to wire
+ * once at module level; the HTTP/WS layer only forwards its events.
+ *
+ * Events: "chars" (MonkeyBatch), "word" (WordHit), "pattern" (PatternHit),
+ *         "phrase-progress" (PhraseProgress), "phrase-complete" (PhraseComplete)
+ */
+export class Channel extends EventEmitter {
+  readonly id: string;
+  readonly config: ChannelConfig;
+  readonly store: ChunkStore;
+  readonly generator: GeneratorConfig;
+  readonly monkey: Monkey;
+  readonly ratePolicy: RatePolicy;
+  readonly detector: WordDetector;
+  readonly wordStore: WordStore;
+  readonly phrases: PhraseWatcher;
+  readonly leaderboards: Leaderboards;
+  readonly patterns: PatternEngine;
+  readonly patternStore: PatternStore;
+  /** Every pattern plugin hit so far, in detection order. */
+  readonly patternHits: PatternHit[];
+  /** Every word found so far, in detection order. */
+  readonly hits: WordHit[];
+  /** Last integrity audit (resumed from its checkpoint on boot). */
+  audit?: IntegrityAudit;
+  /** Downtime catch-up run, when enabled and something was missed. */
+  catchUp?: CatchUp;
+  /** Last background re-index (resumed from its checkpoint on boot). */
+  reindexJob?: ReindexJob;
+  /** Hashes of the finished chunks and their Merkle tree. */
+  readonly ledger: ChunkLedger;
+
+  private readonly logger: Logger;
+  /** Shared by the live detector and every re-scan, so their hits agree. */
+  private readonly detectorOptions: WordDetectorOptions;
+  private carry = 0;
+  private totalCharsGenerated = 0;
+  /** End of the text the detectors have consumed. */
+  private detectedTo = 0;
+  /** A re-index dropped words, so the leaderboards need a rebuild. */
+  private leaderboardsStale = false;
+  /** The startup pattern replay hasn't been written yet; holds the pattern store's position. */
+  private replayingPatterns = false;
+
+  private constructor(
+    config: ChannelConfig,
+    store: ChunkStore,
+    generator: GeneratorConfig,
+    wordStore: WordStore,
+    hits: WordHit[],
+    phrases: PhraseWatcher,
+    leaderboards: Leaderboards,
+    patternStore: PatternStore,
+    patternHits: PatternHit[],
+    ledger: ChunkLedger,
+  ) {
+    super();
+    this.id = config.id;
+    this.config = config;
+    this.store = store;
+    this.generator = generator;
+    this.wordStore = wordStore;
+    this.hits = hits;
+    this.phrases = phrases;
+    this.leaderboards = leaderboards;
+    this.patternStore = patternStore;
+    this.patternHits = patternHits;
+    this.ledger = ledger;
+    this.patterns = new PatternEngine(config.patterns);
+    this.logger = createLogger('channel', { channel: config.id });
+    this.monkey = new Monkey(store, store.cursor, generator);
+    this.detectorOptions = { nested: config.nestedWords, alphabet: generator.alphabet };
+    this.detector = new WordDetector(this.detectorOptions);
+    this.ratePolicy = createRatePolicy(config.rate);
+  }
+
+  /** Load (or create) the channel's stream and bring its word index up to date. */
+  static async open(config: ChannelConfig): Promise<Channel> {
+    const startTime = Date.now();
+    const store = await openChunkStore(config.storage, config.namespace);
+
+    // Refuses to start if the config no longer matches what produced the chunks
+    const generator = await reconcileGeneratorConfig(store, config.generator, config.generatorOverride);
+
+    const wordStore = openWordStore(config.storage, config.namespace);
+    const hits = await wordStore.loadWords();
+    // Detection order (by end, longest first), which re-index steps rely on
+    hits.sort((a, b) => (a.start + a.len) - (b.start + b.len) || b.len - a.len);
+    for (const hit of hits) hit.rarity ??= generator.alphabet.rarity(hit.word);
+    const leaderboards = await Leaderboards.load(
+      openWordStatsStore(config.storage, config.namespace), hits, wordStore.getLastPersistedPosition(),
+    );
+    const phrases = await PhraseWatcher.load(store);
+    const patternStore = openPatternStore(config.storage, config.namespace);
+    const patternHits = await patternStore.loadHits();
+    const ledger = await ChunkLedger.load(store);
+
+    const channel = new Channel(
+      config, store, generator, wordStore, hits, phrases, leaderboards, patternStore, patternHits, ledger,
+    );
+    channel.logger.info({
+      cursor: store.cursor,
+      chunks: store.chunkCount(),
+      wordCount: hits.length,
+      distinctWords: leaderboards.distinctWords,
+      patternHits: patternHits.length,
+      phrases: phrases.size,
+      ledgerChunks: ledger.size,
+      ratePolicy: channel.ratePolicy.name,
+    }, 'Channel store loaded');
+
+    const missingFrom = wordStore.getLastPersistedPosition();
+    await channel.initializeDetector();
+    channel.startPatternReplay();
+    await channel.resumeAudit();
+    await channel.resumeReindex(missingFrom);
+    channel.startLedger();
+    channel.link();
+    await channel.startCatchUp(config);
+
+    logPerformance(channel.logger, 'channel-open', startTime, { cursor: store.cursor });
+    return channel;
+  }
+
+  /** Generate the chars due for one loop step at `charsPerSecond`, carrying the fraction. */
+  async step(charsPerSecond: number, stepMs: number): Promise<number> {
+    // The monkey is busy typing what it missed; live typing resumes after
+    if (this.catchUp?.active) return 0;
+
+    this.carry += charsPerSecond * (stepMs / 1000);
+    const emitCnt = Math.floor(this.carry);
+    this.carry -= emitCnt;
+
+    if (emitCnt > 0) {
+      const batch = await this.monkey.nextBatch(emitCnt);
+      this.emit("chars", batch);
+      this.totalCharsGenerated += emitCnt;
+    }
+    return emitCnt;
+  }
+
+  /**
+   * Re-detect the words ending in (start, end] with the current
+   * dictionaries in the background, replacing what was stored. Callers
+   * check that no other job is running.
+   */
+  reindex(start: number, end: number): ReindexJob {
+    const job = new ReindexJob(this.store, this.detectorOptions, { start, end }, this.applyReindex);
+    this.adoptReindex(job);
+    job.start().catch(err => logError(this.logger, err, { context: 'reindex' }));
+    return job;
+  }
+
+  metrics() {
+    return {
+      channel: this.id,
+      totalChars: this.totalCharsGenerated,
+      cursor: this.store.cursor,
+      words: this.hits.length,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.wordStore.close();
+    await this.phrases.close();
+    await this.leaderboards.close();
+    await this.patternStore.close();
+    this.store.setFlushListener(undefined);
+    await this.ledger.close();
+    await this.store.close();
+    this.logger.info({ cursor: this.store.cursor }, 'Channel closed');
+  }
+
+  /* ---------- startup ------------------------------------------ */
+
+  /**
+   * Restore the detector, phrase matchers and pattern plugins from the
+   * snapshot saved with the cursor, then register for the next one.
+   * Stores written before snapshots existed fall back to priming with
+   * context from the existing text.
+   */
+  private async initializeDetector(): Promise<void> {
+    const cursor = this.store.cursor;
+    const saved = this.store.cursorState as DetectorSnapshot | undefined;
+    let position: number;
+
+    if (saved && saved.position <= cursor) {
+      this.detector.restore(saved.words);
+      this.phrases.restore(saved.phrases);
+      this.patterns.restore(saved.patterns);
+      position = saved.position;
+      this.logger.debug({ position, cursor }, 'Restored detector snapshot');
+    } else {
+      const contextLength = Math.max(this.detector.contextLength, this.phrases.maxLength, this.patterns.maxLength);
+      position = Math.max(0, cursor - contextLength);
+      this.logger.debug({ contextStart: position, cursor }, 'Initializing WordDetector with context');
+    }
+
+    if (position < cursor) {
+      // Not linked yet, so whatever this reports is dropped; the startup
+      // scans below persist anything in here that wasn't stored already
+      const text = await this.store.readSlice(position, cursor - position);
+      this.detector.pushMany(text, position);
+      this.phrases.prime(text);
+      this.patterns.pushMany(text, position);
+    }
+
+    this.detectedTo = cursor;
+    this.store.setCursorState(() => this.snapshot());
+  }
+
+  private snapshot(): DetectorSnapshot {
+    return {
+      position: this.detectedTo,
+      words: this.detector.snapshot(),
+      phrases: this.phrases.snapshot(),
+      patterns: this.patterns.snapshot(),
+    };
+  }
+
+  /**
+   * Replay the pattern plugins over text typed since their persisted
+   * position, in the background. Live hits are stored meanwhile, but the
+   * position only moves on once the replay is written (a failed one keeps
+   * it), so a restart before then replays the same range again.
+   */
+  private startPatternReplay(): void {
+    const lastPosition = this.patternStore.getLastPersistedPosition();
+    if (this.config.patterns.length === 0 || lastPosition >= this.store.cursor) return;
+
+    this.replayingPatterns = true;
+    this.scanMissingPatterns(lastPosition).then(() => {
+      this.replayingPatterns = false;
+      this.patternStore.markDetected(this.detectedTo);
+    }).catch(err => logError(this.logger, err, { context: 'pattern-replay' }));
+  }
+
+  private async scanMissingPatterns(lastPosition: number): Promise<void> {
+    const scanner = new StartupScanner(this.store, this.detectorOptions);
+    const scanStartTime = Date.now();
+    this.logger.info({ lastPersistedPosition: lastPosition, cursor: this.store.cursor }, 'Replaying pattern plugins');
+
+    const loaded = this.patternHits.length;
+    const found = await scanner.scanPatterns(this.config.patterns, lastPosition);
+    // Live hits came in meanwhile, and may include a run straddling the cursor
+    const known = new Set(this.patternHits.map(hit => `${hit.plugin}_${hit.start}_${hit.len}`));
+    const missing = found.filter(hit => !known.has(`${hit.plugin}_${hit.start}_${hit.len}`));
+
+    if (missing.length > 0) {
+      this.logger.warn({
+        missingPatternCount: missing.length,
+        lastPersistedPosition: lastPosition,
+        currentCursor: this.store.cursor,
+      }, 'Found missing pattern hits during startup scan');
+
+      // They predate the live hits, so keep detection order
+      this.patternHits.splice(loaded, 0, ...missing);
+      for (const hit of missing) await this.patternStore.addHit(hit);
+      await this.patternStore.flush();
+    }
+
+    logPerformance(this.logger, 'startup-pattern-scan', scanStartTime, {
+      missingPatterns: missing.length
+    });
+  }
+
+  /** Resume an integrity audit that was interrupted by the last shutdown. */
+  private async resumeAudit(): Promise<void> {
+    this.audit = await IntegrityAudit.fromCheckpoint(this.store, this.generator);
+    if (this.audit?.progress().status === "running") {
+      this.logger.info({ position: this.audit.progress().position }, 'Resuming interrupted integrity audit');
+      this.audit.start().catch(err => logError(this.logger, err, { context: 'audit-resume' }));
+    }
+  }
+
+  /**
+   * Resume a re-index interrupted by the last shutdown, then pick up the
+   * words typed after `missingFrom` (where detection stood when words
+   * were last written) that never made it to the word store. Both run in the background.
+   */
+  private async resumeReindex(missingFrom: number): Promise<void> {
+    const cursor = this.store.cursor;
+    const interrupted = await ReindexJob.fromCheckpoint(this.store, this.detectorOptions, this.applyReindex);
+    const scanMissing = () => {
+      if (missingFrom >= cursor) return;
+      this.logger.info({ lastPersistedPosition: missingFrom, cursor }, 'Scanning for missing words');
+      this.reindex(missingFrom, cursor);
+    };
+
+    if (interrupted?.progress().status === "running") {
+      this.logger.info({ id: interrupted.id, position: interrupted.progress().position }, 'Resuming interrupted re-index');
+      this.adoptReindex(interrupted);
+      interrupted.start().then(result => {
+        if (result.status === "completed") return scanMissing();
+        this.logger.warn({ from: missingFrom, to: cursor }, 'Missing-word scan skipped; re-index that range by hand');
+      }).catch(err => logError(this.logger, err, { context: 'reindex-resume' }));
+      return;
+    }
+    if (interrupted) this.adoptReindex(interrupted);
+    scanMissing();
+  }
+
+  private adoptReindex(job: ReindexJob): void {
+    this.reindexJob = job;
+    job.on("done", () => {
+      if (!this.leaderboardsStale) return;
+      this.leaderboardsStale = false;
+      this.leaderboards.rebuild(this.hits).catch(err => logError(this.logger, err, { context: 'leaderboards-rebuild' }));
+    });
+  }
+
+  /** Swap the stored words ending in (from, to] for a re-index step's hits. */
+  private readonly applyReindex: ReindexSink = async (from, to, fresh) => {
+    const key = (hit: WordHit) => `${hit.start}_${hit.len}`;
+    const stale = this.hits.slice(this.hitsEndingAfter(from), this.hitsEndingAfter(to));
+    await this.wordStore.replaceWords(stale, fresh);
+
+    // Live hits only ever append past `to`, so splice where the step's hits sit now
+    const lo = this.hitsEndingAfter(from);
+    this.hits.splice(lo, this.hitsEndingAfter(to) - lo, ...fresh);
+
+    const staleKeys = new Set(stale.map(key));
+    const freshKeys = new Set(fresh.map(key));
+    const added = fresh.filter(hit => !staleKeys.has(key(hit)));
+    const removed = stale.filter(hit => !freshKeys.has(key(hit))).length;
+    if (removed > 0) this.leaderboardsStale = true;
+    for (const hit of added) this.leaderboards.record(hit);
+    return { added: added.length, removed };
+  };
+
+  /** Index of the first hit ending after `position` (hits are in detection order). */
+  private hitsEndingAfter(position: number): number {
+    let lo = 0;
+    let hi = this.hits.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const hit = this.hits[mid];
+      if (hit.start + hit.len <= position) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /** Hash chunks as the store seals them, and in the background whatever predates that. */
+  private startLedger(): void {
+    this.store.setFlushListener((id, text) => this.ledger.sealed(id, text));
+    this.ledger.catchUp().catch(err => logError(this.logger, err, { context: 'ledger-catch-up' }));
+  }
+
+  /** Plan the downtime catch-up and run it in the background. */
+  private async startCatchUp(config: ChannelConfig): Promise<void> {
+    if (!config.catchUp) return;
+
+    this.catchUp = await CatchUp.plan(this.store, this.monkey, config.rate, config.catchUp);
+    if (!this.catchUp) return;
+
+    this.catchUp.on("chars", (batch: MonkeyBatch) => {
+      this.emit("chars", batch);
+      this.totalCharsGenerated += batch.text.length;
+    });
+    this.catchUp.start().catch(err => logError(this.logger, err, { context: 'catch-up' }));
+  }
+
+  /** generator → detector / phrase watcher / patterns → stores + listeners */
+  private link(): void {
+    this.monkey.on("batch", ({ start, text }: MonkeyBatch) => {
+      this.detector.pushMany(text, start);
+      this.phrases.pushMany(text, start);
+      this.patterns.pushMany(text, start);
+      this.detectedTo = start + text.length;
+      this.wordStore.markDetected(this.detectedTo);
+      if (!this.replayingPatterns) this.patternStore.markDetected(this.detectedTo);
+    });
+    this.detector.on("word", (hit: WordHit) => {
+      this.hits.push(hit);
+      this.leaderboards.record(hit);
+      this.emit("word", hit);
+      this.wordStore.addWord(hit).catch(err => logError(this.logger, err, { context: 'word-store-add' }));
+    });
+    this.patterns.on("hit", (hit: PatternHit) => {
+      this.patternHits.push(hit);
+      this.emit("pattern", hit);
+      this.patternStore.addHit(hit).catch(err => logError(this.logger, err, { context: 'pattern-store-add' }));
+    });
+    this.phrases.on("progress", (progress: PhraseProgress) => this.emit("phrase-progress", progress));
+    this.phrases.on("complete", (complete: PhraseComplete) => this.emit("phrase-complete", complete));
+  }
+}
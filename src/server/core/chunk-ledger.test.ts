@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CHUNK_SIZE } from "../storage/chunk-store";
+import { MemoryChunkStore } from "../storage/memory-chunk-store";
+import { ChunkLedger } from "./chunk-ledger";
+import { MerkleTree, chunkHash, verifyInclusion } from "./merkle";
+
+function chunk(id: number): string {
+  return String.fromCharCode(97 + id % 26).repeat(CHUNK_SIZE);
+}
+
+/** The root a viewer would compute over chunks [0, count). */
+function expectedRoot(count: number): string {
+  const tree = new MerkleTree();
+  for (let id = 0; id < count; id++) tree.append(chunkHash(chunk(id)));
+  return tree.root().toString("hex");
+}
+
+async function appendChunks(store: MemoryChunkStore, from: number, to: number) {
+  for (let id = from; id < to; id++) await store.appendMany(chunk(id));
+}
+
+describe("ChunkLedger", () => {
+  it("hashes chunks as they are sealed and reloads them", async () => {
+    const store = new MemoryChunkStore();
+    const ledger = await ChunkLedger.load(store);
+    store.setFlushListener((id, text) => ledger.sealed(id, text));
+    await appendChunks(store, 0, 5);
+    await store.appendMany("x");
+    await ledger.close();
+
+    assert.deepEqual(ledger.root(), { size: 5, root: expectedRoot(5) });
+    const proof = await ledger.prove(4);
+    const path = proof.proof.map(h => Buffer.from(h, "hex"));
+    assert.ok(verifyInclusion(chunkHash(proof.text), 4, 5, path, Buffer.from(ledger.root().root, "hex")));
+
+    assert.deepEqual((await ChunkLedger.load(store)).root(), ledger.root());
+  });
+
+  it("catches up when a chunk is sealed ahead of it", async () => {
+    const store = new MemoryChunkStore();
+    await appendChunks(store, 0, 3);
+    const ledger = await ChunkLedger.load(store);
+    store.setFlushListener((id, text) => ledger.sealed(id, text));
+
+    // Chunks 0–2 were sealed before anyone listened; sealing chunk 3 must not leave the ledger stuck
+    await appendChunks(store, 3, 4);
+    assert.equal(ledger.status().catchingUp, true);
+    await ledger.catchUp();
+
+    assert.deepEqual(ledger.status(), { chunks: 4, behind: 0, catchingUp: false, error: null });
+    assert.equal(ledger.root().root, expectedRoot(4));
+    await ledger.close();
+  });
+
+  it("reports a damaged chunk until a catch-up gets past it", async () => {
+    const store = new MemoryChunkStore();
+    await appendChunks(store, 0, 3);
+    const readChunk = store.readChunk.bind(store);
+    store.readChunk = async id => id === 1 ? "short" : readChunk(id);
+
+    const ledger = await ChunkLedger.load(store);
+    await assert.rejects(ledger.catchUp(), /Chunk 1 holds 5 chars/);
+    assert.deepEqual(ledger.status(), {
+      chunks: 1,
+      behind: 2,
+      catchingUp: false,
+      error: "Chunk 1 holds 5 chars; repair it before it can be hashed",
+    });
+
+    store.readChunk = readChunk;
+    assert.equal(await ledger.catchUp(), 2);
+    assert.equal(ledger.status().error, null);
+    assert.equal(ledger.root().root, expectedRoot(3));
+    await ledger.close();
+  });
+});
@@ -0,0 +1,213 @@
+import { CHUNK_SIZE, type ChunkStore } from "../storage/chunk-store";
+import { MerkleTree, chunkHash } from "./merkle";
+import { ledgerLogger as logger, logError } from "../utils/logger";
+
+/** Meta keys `ledger-<page>`, each holding LEDGER_PAGE_SIZE chunk hashes (~66 KB). */
+const LEDGER_META_PREFIX = "ledger-";
+const LEDGER_PAGE_SIZE = 1_024;
+
+interface LedgerPage {
+  /** Hex SHA-256 of each chunk's text, in chunk order. */
+  hashes: string[];
+}
+
+export interface LedgerRoot {
+  /** Chunks covered, i.e. the tree size. */
+  size: number;
+  root: string;
+}
+
+/** For /status: how far the ledger lags the store, and why if it is stuck. */
+export interface LedgerStatus {
+  chunks: number;
+  /** Finished chunks not hashed yet. */
+  behind: number;
+  catchingUp: boolean;
+  /** Why the last catch-up stopped short; null once one completes. */
+  error: string | null;
+}
+
+/** One chunk's text with everything needed to check it against a root. */
+export interface ChunkProof {
+  chunkId: number;
+  /** Stream index of the chunk's first char. */
+  start: number;
+  text: string;
+  hash: string;
+  /** Sibling hashes from the leaf up. */
+  proof: string[];
+}
+
+/**
+ * Content hashes of a channel's finished chunks, rolled up into a Merkle
+ * tree (merkle.ts) whose root anyone can pin and check later chunks or
+ * character ranges against. The store reports every chunk flush() seals;
+ * chunks sealed while nobody listened (first run, boot-time replays) are
+ * hashed by `catchUp`. Only finished chunks are covered: the working one
+ * still changes.
+ */
+export class ChunkLedger {
+  private readonly store: ChunkStore;
+  private tree = new MerkleTree();
+  private readonly hashes: string[] = [];
+  /** Pages with hashes not written yet. */
+  private readonly dirty = new Set<number>();
+  /** Page writes run one at a time. */
+  private writes: Promise<void> = Promise.resolve();
+  /** The running catch-up; later callers share it. */
+  private catchingUp?: Promise<number>;
+  private error: string | null = null;
+
+  private constructor(store: ChunkStore) {
+    this.store = store;
+  }
+
+  /** Rebuild the tree from the stored pages. */
+  static async load(store: ChunkStore): Promise<ChunkLedger> {
+    const self = new ChunkLedger(store);
+    for (let page = 0; ; page++) {
+      const doc = await store.readMeta<LedgerPage>(LEDGER_META_PREFIX + page);
+      if (!doc) break;
+      for (const hash of doc.hashes) self.add(hash);
+      if (doc.hashes.length < LEDGER_PAGE_SIZE) break;
+    }
+    return self;
+  }
+
+  /** Chunks covered so far. */
+  get size() {
+    return this.hashes.length;
+  }
+
+  status(): LedgerStatus {
+    return {
+      chunks: this.size,
+      behind: Math.max(0, Math.floor(this.store.cursor / CHUNK_SIZE) - this.size),
+      catchingUp: this.catchingUp !== undefined,
+      error: this.error,
+    };
+  }
+
+  /** Flush listener: hash the chunk the store just sealed. */
+  sealed(chunkId: number, text: string): void {
+    if (chunkId < this.size) return;
+    if (chunkId > this.size) {
+      // Chunks before it were sealed unheard (or a hash failed); read them back
+      logger.warn({ chunkId, ledgerSize: this.size }, 'Chunk sealed ahead of the ledger; catching up');
+      this.catchUp().catch(err => logError(logger, err, { context: 'ledger-catch-up' }));
+      return;
+    }
+    this.add(chunkHash(text).toString("hex"));
+    this.persist().catch(err => logError(logger, err, { context: 'ledger-persist' }));
+  }
+
+  /**
+   * Hash every finished chunk the ledger doesn't cover yet. A failure
+   * (a damaged chunk) is kept for `status` until a catch-up completes.
+   */
+  catchUp(): Promise<number> {
+    this.catchingUp ??= this.hashMissing().then(
+      hashed => {
+        this.error = null;
+        return hashed;
+      },
+      (error: unknown) => {
+        this.error = error instanceof Error ? error.message : String(error);
+        throw error;
+      },
+    ).finally(() => {
+      this.catchingUp = undefined;
+    });
+    return this.catchingUp;
+  }
+
+  /** Hex hash of chunk `chunkId`, if covered. */
+  hash(chunkId: number): string | undefined {
+    return this.hashes[chunkId];
+  }
+
+  /** Forget chunks from `size` on, after a restore replaced them. */
+  async truncate(size: number): Promise<void> {
+    if (size >= this.size) return;
+    const dropped = this.hashes.splice(size).length;
+    this.tree = new MerkleTree();
+    for (const hash of this.hashes) this.tree.append(Buffer.from(hash, "hex"));
+
+    // A short (possibly empty) page ends the ledger on the next load
+    this.dirty.add(Math.floor(size / LEDGER_PAGE_SIZE));
+    await this.persist();
+    logger.warn({ size, dropped }, 'Ledger truncated');
+  }
+
+  /** Root over the first `size` chunks (default: all covered ones). */
+  root(size: number = this.size): LedgerRoot {
+    return { size, root: this.tree.root(size).toString("hex") };
+  }
+
+  /** Inclusion proof of chunk `chunkId` in the tree of the first `size` chunks. */
+  async prove(chunkId: number, size: number = this.size): Promise<ChunkProof> {
+    const proof = this.tree.proof(chunkId, size).map(hash => hash.toString("hex"));
+    return {
+      chunkId,
+      start: chunkId * CHUNK_SIZE,
+      text: await this.store.readChunk(chunkId),
+      hash: this.hashes[chunkId],
+      proof,
+    };
+  }
+
+  /** Wait for pending page writes. */
+  async close(): Promise<void> {
+    await this.persist();
+  }
+
+  private async hashMissing(): Promise<number> {
+    const from = this.size;
+    const startTime = Date.now();
+
+    // Chunks sealed out of order while the last page was written join the same run
+    do {
+      while (this.size < Math.floor(this.store.cursor / CHUNK_SIZE)) {
+        const id = this.size;
+        const text = await this.store.readChunk(id);
+        if (id !== this.size) continue; // sealed() got there first
+        if (text.length !== CHUNK_SIZE) {
+          throw new Error(`Chunk ${id} holds ${text.length} chars; repair it before it can be hashed`);
+        }
+
+        this.add(chunkHash(text).toString("hex"));
+        if (this.size % LEDGER_PAGE_SIZE === 0) await this.persist();
+      }
+      await this.persist();
+    } while (this.size < Math.floor(this.store.cursor / CHUNK_SIZE));
+
+    if (this.size > from) {
+      logger.info({ from, to: this.size, durationMs: Date.now() - startTime }, 'Ledger caught up');
+    }
+    return this.size - from;
+  }
+
+  private add(hash: string) {
+    this.dirty.add(Math.floor(this.hashes.length / LEDGER_PAGE_SIZE));
+    this.hashes.push(hash);
+    this.tree.append(Buffer.from(hash, "hex"));
+  }
+
+  private persist(): Promise<void> {
+    const run = this.writes.then(async () => {
+      const pages = [...this.dirty].sort((a, b) => a - b);
+      this.dirty.clear();
+      try {
+        for (const page of pages) {
+          const hashes = this.hashes.slice(page * LEDGER_PAGE_SIZE, (page + 1) * LEDGER_PAGE_SIZE);
+          await this.store.writeMeta(LEDGER_META_PREFIX + page, { hashes } satisfies LedgerPage);
+        }
+      } catch (error) {
+        for (const page of pages) this.dirty.add(page);
+        throw error;
+      }
+    });
+    this.writes = run.catch(() => {});
+    return run;
+  }
+}
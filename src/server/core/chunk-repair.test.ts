@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CHUNK_SIZE } from "../storage/chunk-store";
+import { MemoryChunkStore } from "../storage/memory-chunk-store";
+import { MemoryWordStore } from "../storage/memory-word-store";
+import { repairChunks } from "./chunk-repair";
+import { createRng, DEFAULT_GENERATOR } from "./generator-config";
+import { StartupScanner } from "./startup-scanner";
+
+const [STREAM] = DEFAULT_GENERATOR.alphabet.sampleMany(createRng(DEFAULT_GENERATOR), 2 * CHUNK_SIZE + 100);
+
+/** The generated stream with chunk 1 overwritten, and the words detected in that damaged text. */
+async function damagedChannel() {
+  const store = new MemoryChunkStore();
+  await store.appendMany(STREAM);
+  await store.writeChunk(1, "house".repeat(CHUNK_SIZE / 4).slice(0, CHUNK_SIZE));
+
+  const scanner = new StartupScanner(store, { alphabet: DEFAULT_GENERATOR.alphabet });
+  const words = new MemoryWordStore();
+  await words.replaceWords([], await scanner.scanRange(0, store.cursor));
+  return { store, words, scanner };
+}
+
+describe("repairChunks", () => {
+  it("regenerates a corrupt chunk and swaps the words detected in it", async () => {
+    const { store, words, scanner } = await damagedChannel();
+    const damagedWords = await words.loadWords();
+
+    const report = await repairChunks(store, words, DEFAULT_GENERATOR, { verify: true });
+    assert.deepEqual(report.damaged, [{ id: 1, storedLength: CHUNK_SIZE, reason: "corrupt" }]);
+    assert.equal(await store.readSlice(0, STREAM.length), STREAM);
+
+    const expected = await scanner.scanRange(0, store.cursor);
+    assert.deepEqual(await words.loadWords(), expected);
+    assert.ok(report.removed.some(hit => hit.word === "house"));
+    assert.equal(damagedWords.length - report.removed.length + report.added.length, expected.length);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const { store, words } = await damagedChannel();
+    const before = await words.loadWords();
+
+    const report = await repairChunks(store, words, DEFAULT_GENERATOR, { verify: true, dryRun: true });
+    assert.equal(report.damaged.length, 1);
+    assert.equal(report.repaired, 0);
+    assert.deepEqual(report.added, []);
+    assert.notEqual(await store.readChunk(1), STREAM.slice(CHUNK_SIZE, 2 * CHUNK_SIZE));
+    assert.deepEqual(await words.loadWords(), before);
+  });
+});
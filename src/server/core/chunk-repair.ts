@@ -0,0 +1,132 @@
+import * as prand from "pure-rand";
+import { CHUNK_SIZE, type ChunkStore } from "../storage/chunk-store";
+import { sameWord, wordKey, type WordStore } from "../storage/word-store";
+import { dictionaries } from "./dictionary";
+import { createRng, type GeneratorConfig } from "./generator-config";
+import { StartupScanner } from "./startup-scanner";
+import type { WordHit } from "./word-detector";
+import { repairLogger as logger } from "../utils/logger";
+
+export interface DamagedChunk {
+  id: number;
+  storedLength: number;
+  /** missing = no text, short = truncated, corrupt = wrong text (verify mode) */
+  reason: "missing" | "short" | "corrupt";
+}
+
+export interface RepairOptions {
+  /** First chunk id to inspect (default 0). */
+  fromChunk?: number;
+  /** One past the last chunk id (default: every finished chunk). */
+  toChunk?: number;
+  /** Also compare full-length chunks against the expected text. */
+  verify?: boolean;
+  /** Report only — write nothing. */
+  dryRun?: boolean;
+  /** Re-detect nested words too (match the channel's `nestedWords`). */
+  nested?: boolean;
+}
+
+export interface RepairReport {
+  scanned: number;
+  damaged: DamagedChunk[];
+  repaired: number;
+  /** Words over the repaired ranges that were re-detected from the new text… */
+  added: WordHit[];
+  /** …and the stored ones they replaced, detected in the damaged text. */
+  removed: WordHit[];
+  dryRun: boolean;
+}
+
+/**
+ * Rebuilds lost or truncated FINISHED chunks from the seed. The stream is a
+ * pure function of (generator, position), so intact chunks are skipped with
+ * `prand.skipN` and only damaged ones are regenerated and written back
+ * through `ChunkStore.writeChunk`. Words over each repaired range are then
+ * re-detected and swapped for the stored ones through `replaceWords`, as a
+ * re-index would; the caller updates the leaderboards from the report.
+ */
+export async function repairChunks(
+  store: ChunkStore,
+  wordStore: WordStore,
+  generator: GeneratorConfig,
+  options: RepairOptions = {},
+): Promise<RepairReport> {
+  const finished = Math.floor(store.cursor / CHUNK_SIZE);
+  const fromChunk = options.fromChunk ?? 0;
+  const toChunk = Math.min(options.toChunk ?? finished, finished);
+  const dryRun = options.dryRun ?? false;
+
+  const startTime = Date.now();
+  logger.info({ fromChunk, toChunk, verify: options.verify, dryRun }, 'Chunk repair started');
+
+  let rng = prand.skipN(createRng(generator), fromChunk * CHUNK_SIZE);
+  const damaged: DamagedChunk[] = [];
+
+  for (let id = fromChunk; id < toChunk; id++) {
+    const stored = await store.readChunk(id);
+
+    if (stored.length === CHUNK_SIZE && !options.verify) {
+      rng = prand.skipN(rng, CHUNK_SIZE);
+      continue;
+    }
+
+    const [expected, next] = generator.alphabet.sampleMany(rng, CHUNK_SIZE);
+    rng = next;
+    if (stored === expected) continue;
+
+    const chunk: DamagedChunk = {
+      id,
+      storedLength: stored.length,
+      reason: stored.length === 0 ? "missing" : stored.length < CHUNK_SIZE ? "short" : "corrupt",
+    };
+    damaged.push(chunk);
+    logger.warn(chunk, 'Damaged chunk found');
+
+    if (!dryRun) await store.writeChunk(id, expected);
+  }
+
+  // Re-detect words over each contiguous repaired range
+  const added: WordHit[] = [];
+  const removed: WordHit[] = [];
+  if (!dryRun) {
+    const scanner = new StartupScanner(store, { nested: options.nested, alphabet: generator.alphabet });
+    for (let i = 0; i < damaged.length;) {
+      let j = i;
+      while (j + 1 < damaged.length && damaged[j + 1].id === damaged[j].id + 1) j++;
+      const start = damaged[i].id * CHUNK_SIZE;
+      const end = (damaged[j].id + 1) * CHUNK_SIZE;
+
+      const fresh = await scanner.scanRange(start, end);
+      const stored = (await wordStore.loadRange(Math.max(0, start - dictionaries.current.maxLength), end))
+        .filter(hit => hit.start + hit.len > start);
+      const freshByKey = new Map(fresh.map(hit => [wordKey(hit), hit]));
+      const storedByKey = new Map(stored.map(hit => [wordKey(hit), hit]));
+      const stale = stored.filter(hit => !sameWord(hit, freshByKey.get(wordKey(hit))));
+      const missing = fresh.filter(hit => !sameWord(hit, storedByKey.get(wordKey(hit))));
+
+      if (stale.length > 0 || missing.length > 0) await wordStore.replaceWords(stale, missing);
+      added.push(...missing);
+      removed.push(...stale);
+      i = j + 1;
+    }
+  }
+
+  logger.info({
+    scanned: toChunk - fromChunk,
+    damaged: damaged.length,
+    added: added.length,
+    removed: removed.length,
+    dryRun,
+    durationMs: Date.now() - startTime,
+  }, 'Chunk repair finished');
+
+  return {
+    scanned: Math.max(0, toChunk - fromChunk),
+    damaged,
+    repaired: dryRun ? 0 : damaged.length,
+    added,
+    removed,
+    dryRun,
+  };
+}
@@ -0,0 +1,182 @@
+import fs from "fs";
+import path, { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { EventEmitter } from "events";
+import { AhoCorasick } from "./aho-corasick";
+import { detectorLogger as logger, logError } from "../utils/logger";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Shorter dictionary entries are never reported. */
+export const MIN_WORD_LENGTH = 3;
+/** Name of the bundled list — and of words stored before hits were tagged. */
+export const DEFAULT_DICTIONARY = "english";
+
+const DEFAULT_DICT_FILE = path.join(__dirname, "../../data/words.txt");
+const RELOAD_DEBOUNCE_MS = 500;
+
+export interface DictionaryInfo {
+  name: string;
+  file: string;
+  size: number;
+}
+
+/** Where word lists come from; see `dictionarySourceFromEnv`. */
+export interface DictionarySource {
+  /** Directory of `<name>.txt` files (one word per line); unset = bundled list. */
+  dir?: string;
+  /** Which files to load and their priority; unset = every file, by name. */
+  names?: string[];
+}
+
+interface LoadedDictionary {
+  name: string;
+  file: string;
+  words: string[];
+}
+
+/**
+ * One compiled generation of the configured dictionaries. Immutable: a
+ * reload builds a new Lexicon and swaps it in, so detectors can tell they
+ * are out of date with a reference comparison.
+ */
+export class Lexicon {
+  readonly version: number;
+  readonly loadedAt: Date;
+  readonly dictionaries: DictionaryInfo[];
+  readonly automaton: AhoCorasick;
+
+  /** word → first dictionary (in priority order) that lists it */
+  private readonly owners = new Map<string, string>();
+
+  constructor(version: number, dictionaries: LoadedDictionary[]) {
+    this.version = version;
+    this.loadedAt = new Date();
+    this.dictionaries = dictionaries.map(d => ({ name: d.name, file: d.file, size: d.words.length }));
+
+    for (const { name, words } of dictionaries) {
+      for (const word of words) {
+        if (!this.owners.has(word)) this.owners.set(word, name);
+      }
+    }
+    this.automaton = new AhoCorasick(this.owners.keys());
+  }
+
+  /** Distinct words across all dictionaries. */
+  get size() { return this.automaton.size; }
+
+  /** Longest word; re-scans need this much context. */
+  get maxLength() { return this.automaton.maxLength; }
+
+  dictionaryOf(word: string): string {
+    return this.owners.get(word) ?? DEFAULT_DICTIONARY;
+  }
+}
+
+/**
+ * MONKEY_DICTIONARY_DIR points at a directory of `<name>.txt` word lists;
+ * MONKEY_DICTIONARIES (comma separated) picks and orders them. A word listed
+ * by several dictionaries is attributed to the first.
+ */
+export function dictionarySourceFromEnv(env: NodeJS.ProcessEnv = process.env): DictionarySource {
+  return {
+    dir: env.MONKEY_DICTIONARY_DIR || undefined,
+    names: env.MONKEY_DICTIONARIES?.split(",").map(n => n.trim()).filter(Boolean),
+  };
+}
+
+function readWordList(file: string): string[] {
+  return fs.readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map(w => w.trim())
+    .filter(w => w.length >= MIN_WORD_LENGTH);
+}
+
+function loadDictionaries(source: DictionarySource): LoadedDictionary[] {
+  if (!source.dir) {
+    return [{ name: DEFAULT_DICTIONARY, file: DEFAULT_DICT_FILE, words: readWordList(DEFAULT_DICT_FILE) }];
+  }
+
+  const names = source.names ?? fs.readdirSync(source.dir)
+    .filter(f => f.endsWith(".txt"))
+    .map(f => f.slice(0, -".txt".length))
+    .sort();
+  if (names.length === 0) throw new Error(`No dictionaries (*.txt) in ${source.dir}`);
+
+  return names.map(name => {
+    const file = path.join(source.dir!, `${name}.txt`);
+    return { name, file, words: readWordList(file) };
+  });
+}
+
+/**
+ * Holds the live Lexicon and rebuilds it when the word lists change.
+ *
+ * Events: "reload" (Lexicon)
+ */
+export class DictionaryRegistry extends EventEmitter {
+  private readonly source: DictionarySource;
+  private _current: Lexicon;
+  private watcher?: fs.FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(source: DictionarySource) {
+    super();
+    this.source = source;
+    this._current = this.build(1);
+  }
+
+  get current(): Lexicon {
+    return this._current;
+  }
+
+  /** Re-read every list. Throws (keeping the current lexicon) if one is unreadable. */
+  reload(): Lexicon {
+    this._current = this.build(this._current.version + 1);
+    this.emit("reload", this._current);
+    return this._current;
+  }
+
+  /** Reload automatically whenever the dictionary files change. */
+  watch(): void {
+    if (this.watcher) return;
+    const target = this.source.dir ?? DEFAULT_DICT_FILE;
+
+    this.watcher = fs.watch(target, () => {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        try {
+          this.reload();
+        } catch (error) {
+          logError(logger, error, { context: 'dictionary-reload', target });
+        }
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    logger.info({ target }, 'Watching dictionaries for changes');
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private build(version: number): Lexicon {
+    const startLoad = Date.now();
+    const lexicon = new Lexicon(version, loadDictionaries(this.source));
+
+    logger.info({
+      version,
+      dictionaries: lexicon.dictionaries.map(d => `${d.name}:${d.size}`),
+      dictionarySize: lexicon.size,
+      minLength: MIN_WORD_LENGTH,
+      maxLength: lexicon.maxLength,
+      loadTime: Date.now() - startLoad,
+    }, 'Dictionaries loaded');
+
+    return lexicon;
+  }
+}
+
+/** Process-wide registry shared by every channel's detector. */
+export const dictionaries = new DictionaryRegistry(dictionarySourceFromEnv());
@@ -0,0 +1,164 @@
+import * as prand from "pure-rand";
+import { GENERATOR_META_KEY, type ChunkStore } from "../storage/chunk-store";
+import { Alphabet, DEFAULT_ALPHABET, type AlphabetSpec } from "./alphabet";
+import { startupLogger as logger } from "../utils/logger";
+
+/** RNG families the monkey can be built on, keyed by their persisted name. */
+export const RNG_ALGORITHMS = {
+  xoroshiro128plus: prand.xoroshiro128plus,
+  xorshift128plus: prand.xorshift128plus,
+  mersenne: prand.mersenne,
+  congruential32: prand.congruential32,
+} as const;
+
+export type RngAlgorithm = keyof typeof RNG_ALGORITHMS;
+
+/** Everything the character stream is a pure function of (besides position). */
+export interface GeneratorConfig {
+  seed: number;
+  algorithm: RngAlgorithm;
+  alphabet: Alphabet;
+}
+
+/** The values every stream was produced with before they became configurable. */
+export const DEFAULT_GENERATOR: GeneratorConfig = {
+  seed: 0x6C656F,
+  algorithm: "xoroshiro128plus",
+  alphabet: DEFAULT_ALPHABET,
+};
+
+/** Shape of the `meta/generator` document. */
+export interface GeneratorMeta {
+  seed: number;
+  algorithm: RngAlgorithm;
+  alphabet: AlphabetSpec;
+}
+
+/**
+ * What to do when the configured generator differs from the one that
+ * produced the stored chunks:
+ *   refuse     – abort startup (default)
+ *   persisted  – ignore config, keep generating with the stored values
+ *   configured – overwrite the stored values; text before the cursor will
+ *                no longer be reproducible from the meta document
+ */
+export type GeneratorOverride = "refuse" | "persisted" | "configured";
+
+export class GeneratorMismatchError extends Error {
+  readonly differences: string[];
+
+  constructor(differences: string[]) {
+    super(`Configured generator does not match the stored stream (${differences.join(", ")}); `
+      + `set MONKEY_GENERATOR_OVERRIDE=persisted or =configured to start anyway`);
+    this.name = "GeneratorMismatchError";
+    this.differences = differences;
+  }
+}
+
+/** Build a fresh RNG positioned at index 0 of the stream. */
+export function createRng(config: GeneratorConfig): prand.RandomGenerator {
+  return RNG_ALGORITHMS[config.algorithm](config.seed);
+}
+
+export function parseRngAlgorithm(name: string): RngAlgorithm {
+  if (!(name in RNG_ALGORITHMS)) {
+    throw new Error(`Unknown RNG algorithm "${name}" (expected one of ${Object.keys(RNG_ALGORITHMS).join(", ")})`);
+  }
+  return name as RngAlgorithm;
+}
+
+/** Accepts decimal or `0x…` hex; seeds are 32-bit integers. */
+export function parseSeed(raw: string): number {
+  const seed = Number(raw);
+  if (!Number.isInteger(seed) || seed < -0x80000000 || seed > 0xFFFFFFFF) {
+    throw new Error(`Invalid seed "${raw}" (expected a 32-bit integer)`);
+  }
+  return seed | 0;
+}
+
+export function parseGeneratorOverride(raw: string): GeneratorOverride {
+  if (raw !== "refuse" && raw !== "persisted" && raw !== "configured") {
+    throw new Error(`Invalid generator override "${raw}" (expected refuse, persisted or configured)`);
+  }
+  return raw;
+}
+
+export function toGeneratorMeta(config: GeneratorConfig): GeneratorMeta {
+  return { seed: config.seed, algorithm: config.algorithm, alphabet: config.alphabet.toSpec() };
+}
+
+export function fromGeneratorMeta(meta: GeneratorMeta): GeneratorConfig {
+  return {
+    seed: meta.seed,
+    algorithm: parseRngAlgorithm(meta.algorithm),
+    alphabet: new Alphabet(meta.alphabet),
+  };
+}
+
+/** Human-readable list of fields that differ between two configs. */
+export function diffGeneratorConfig(a: GeneratorConfig, b: GeneratorConfig): string[] {
+  const diffs: string[] = [];
+  if ((a.seed | 0) !== (b.seed | 0)) diffs.push(`seed ${a.seed} ≠ ${b.seed}`);
+  if (a.algorithm !== b.algorithm) diffs.push(`algorithm ${a.algorithm} ≠ ${b.algorithm}`);
+  if (!a.alphabet.equals(b.alphabet)) diffs.push(`alphabet ${a.alphabet.name} ≠ ${b.alphabet.name}`);
+  return diffs;
+}
+
+/**
+ * Read-only lookup of the generator that produced the stream, for tools
+ * that run beside (or instead of) the server. Unrecorded streams with text
+ * are assumed to be legacy DEFAULT_GENERATOR output.
+ */
+export async function loadStreamGenerator(store: ChunkStore): Promise<GeneratorConfig | undefined> {
+  const meta = await store.readMeta<Partial<GeneratorMeta>>(GENERATOR_META_KEY);
+  if (meta?.seed !== undefined && meta.algorithm && meta.alphabet) {
+    return fromGeneratorMeta(meta as GeneratorMeta);
+  }
+  return store.cursor > 0 ? DEFAULT_GENERATOR : undefined;
+}
+
+/**
+ * Compare the configured generator with the one recorded in the store's
+ * meta and decide which one to run with.
+ *  • fresh store      → record the configured generator
+ *  • legacy stream    → (chunks but no meta) record DEFAULT_GENERATOR, the
+ *                       only thing that could have produced it
+ *  • recorded stream  → must match, unless `override` says otherwise
+ */
+export async function reconcileGeneratorConfig(
+  store: ChunkStore,
+  configured: GeneratorConfig,
+  override: GeneratorOverride = "refuse",
+): Promise<GeneratorConfig> {
+  const meta = await store.readMeta<Partial<GeneratorMeta>>(GENERATOR_META_KEY);
+
+  let persisted: GeneratorConfig;
+  if (meta?.seed !== undefined && meta.algorithm && meta.alphabet) {
+    persisted = fromGeneratorMeta(meta as GeneratorMeta);
+  } else {
+    // Streams from before seed/algorithm were recorded may carry only an alphabet
+    persisted = store.cursor > 0
+      ? { ...DEFAULT_GENERATOR, alphabet: meta?.alphabet ? new Alphabet(meta.alphabet) : DEFAULT_ALPHABET }
+      : configured;
+    await store.writeMeta(GENERATOR_META_KEY, toGeneratorMeta(persisted));
+    logger.info({ ...toGeneratorMeta(persisted), cursor: store.cursor }, 'Recorded stream generator');
+  }
+
+  const differences = diffGeneratorConfig(configured, persisted);
+  if (differences.length === 0) return persisted;
+
+  switch (override) {
+    case "persisted":
+      logger.warn({ differences }, 'Generator config mismatch; continuing with the persisted generator');
+      return persisted;
+    case "configured":
+      logger.warn({
+        differences,
+        cursor: store.cursor,
+      }, 'Generator config mismatch; OVERWRITING the persisted generator — earlier text is no longer reproducible');
+      await store.writeMeta(GENERATOR_META_KEY, toGeneratorMeta(configured));
+      return configured;
+    default:
+      throw new GeneratorMismatchError(differences);
+  }
+}
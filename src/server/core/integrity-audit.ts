@@ -0,0 +1,197 @@
+import { EventEmitter } from "events";
+import * as prand from "pure-rand";
+import { CHUNK_SIZE, type ChunkStore } from "../storage/chunk-store";
+import { createRng, type GeneratorConfig } from "./generator-config";
+import { auditLogger as logger } from "../utils/logger";
+
+/** Meta key holding the last audit checkpoint. */
+export const AUDIT_META_KEY = "audit";
+
+/** Persist a checkpoint at least this often (chars). */
+const CHECKPOINT_INTERVAL = 1_048_576;
+
+export type AuditStatus = "pending" | "running" | "paused" | "completed" | "mismatch" | "failed";
+
+export interface AuditMismatch {
+  index: number;
+  expected: string;
+  /** `null` when the stored text ends early (missing / truncated chunk). */
+  actual: string | null;
+}
+
+/** Shape of the `meta/audit` document — enough to resume a run. */
+export interface AuditCheckpoint {
+  start: number;
+  end: number;
+  /** Next index to verify; everything in [start, position) matched. */
+  position: number;
+  status: AuditStatus;
+  mismatch?: AuditMismatch;
+  error?: string;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface AuditProgress extends AuditCheckpoint {
+  /** chars verified per second during this run */
+  rate: number;
+  etaSec: number | null;
+}
+
+/**
+ * Replays the RNG from the seed and compares it, chunk by chunk, with
+ * what the ChunkStore holds for [start, end). Stops at the first
+ * difference. Runs on the event loop but yields after every chunk, so
+ * the generation loop keeps its cadence.
+ *
+ * Events: "progress" (AuditProgress), "done" (AuditProgress)
+ */
+export class IntegrityAudit extends EventEmitter {
+  private readonly store: ChunkStore;
+  private readonly generator: GeneratorConfig;
+  private state: AuditCheckpoint;
+
+  private runStartedAt = 0;
+  private runStartPosition = 0;
+  private pauseRequested = false;
+  private running?: Promise<AuditProgress>;
+
+  constructor(store: ChunkStore, generator: GeneratorConfig, range: { start: number; end: number }) {
+    super();
+    if (range.start < 0 || range.end < range.start) {
+      throw new Error(`Invalid audit range [${range.start}, ${range.end})`);
+    }
+    this.store = store;
+    this.generator = generator;
+    const now = Date.now();
+    this.state = {
+      start: range.start,
+      end: range.end,
+      position: range.start,
+      status: "pending",
+      startedAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /** Rebuild an audit from the last persisted checkpoint, if any. */
+  static async fromCheckpoint(store: ChunkStore, generator: GeneratorConfig): Promise<IntegrityAudit | undefined> {
+    const checkpoint = await store.readMeta<AuditCheckpoint>(AUDIT_META_KEY);
+    if (!checkpoint) return undefined;
+
+    const audit = new IntegrityAudit(store, generator, checkpoint);
+    audit.state = { ...checkpoint };
+    return audit;
+  }
+
+  get finished(): boolean {
+    return ["completed", "mismatch", "failed"].includes(this.state.status);
+  }
+
+  /** Start (or resume) the run; resolves when it completes, stops on a mismatch or is paused. */
+  start(): Promise<AuditProgress> {
+    if (this.running) return this.running;
+    if (this.finished) return Promise.resolve(this.progress());
+
+    this.pauseRequested = false;
+    this.running = this.run().finally(() => { this.running = undefined; });
+    return this.running;
+  }
+
+  /** Ask a running audit to stop at the next chunk boundary and checkpoint. */
+  pause(): void {
+    this.pauseRequested = true;
+  }
+
+  progress(): AuditProgress {
+    const elapsed = (Date.now() - this.runStartedAt) / 1000;
+    const done = this.state.position - this.runStartPosition;
+    const rate = this.state.status === "running" && elapsed > 0 ? done / elapsed : 0;
+    const remaining = this.state.end - this.state.position;
+    return {
+      ...this.state,
+      rate: Math.round(rate),
+      etaSec: rate > 0 ? Math.ceil(remaining / rate) : null,
+    };
+  }
+
+  /* ---------- internals ---------------------------------------- */
+
+  private async run(): Promise<AuditProgress> {
+    this.state.status = "running";
+    this.runStartedAt = Date.now();
+    this.runStartPosition = this.state.position;
+
+    logger.info({
+      start: this.state.start,
+      end: this.state.end,
+      position: this.state.position,
+    }, 'Integrity audit started');
+
+    try {
+      let rng = prand.skipN(createRng(this.generator), this.state.position);
+      let lastCheckpoint = this.state.position;
+
+      while (this.state.position < this.state.end) {
+        if (this.pauseRequested) {
+          this.state.status = "paused";
+          break;
+        }
+
+        // Stay aligned to chunk boundaries so each read hits one chunk
+        const pos = this.state.position;
+        const len = Math.min(CHUNK_SIZE - (pos % CHUNK_SIZE), this.state.end - pos);
+        const actual = await this.store.readSlice(pos, len);
+
+        const [expected, next] = this.generator.alphabet.sampleMany(rng, len);
+        rng = next;
+
+        if (actual !== expected) {
+          let i = 0;
+          while (i < len && actual[i] === expected[i]) i++;
+          this.state.position = pos + i;
+          this.state.mismatch = { index: pos + i, expected: expected[i], actual: actual[i] ?? null };
+          this.state.status = "mismatch";
+          break;
+        }
+
+        this.state.position = pos + len;
+        this.emit("progress", this.progress());
+
+        if (this.state.position - lastCheckpoint >= CHECKPOINT_INTERVAL) {
+          await this.checkpoint();
+          lastCheckpoint = this.state.position;
+        }
+
+        // Let the generation loop and HTTP handlers run
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      if (this.state.status === "running") this.state.status = "completed";
+    } catch (error) {
+      this.state.status = "failed";
+      this.state.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await this.checkpoint();
+
+    const result = this.progress();
+    const level = this.state.status === "completed" || this.state.status === "paused" ? "info" : "error";
+    logger[level]({
+      status: result.status,
+      position: result.position,
+      mismatch: result.mismatch,
+      error: result.error,
+      durationMs: Date.now() - this.runStartedAt,
+    }, 'Integrity audit stopped');
+
+    this.emit("done", result);
+    return result;
+  }
+
+  private async checkpoint(): Promise<void> {
+    this.state.updatedAt = Date.now();
+    await this.store.writeMeta(AUDIT_META_KEY, this.state);
+    logger.debug({ position: this.state.position, status: this.state.status }, 'Audit checkpoint written');
+  }
+}
@@ -0,0 +1,94 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { FileWordStatsStore } from "../storage/file-word-stats-store";
+import { MemoryWordStatsStore } from "../storage/memory-word-stats-store";
+import { Leaderboards, type WordStats } from "./leaderboards";
+import type { WordHit } from "./word-detector";
+
+const scratch: string[] = [];
+
+after(async () => {
+  for (const dir of scratch) await fs.rm(dir, { recursive: true, force: true });
+});
+
+function word(start: number, value: string): WordHit {
+  return { start, len: value.length, word: value, kind: "primary", dictionary: "english", rarity: value.length };
+}
+
+/** Detection order, one word repeated. */
+const HITS = [word(0, "cat"), word(10, "house"), word(20, "cat"), word(30, "seat")];
+const end = (hit: WordHit) => hit.start + hit.len;
+
+function counts(leaderboards: Leaderboards): Record<string, number> {
+  return Object.fromEntries(leaderboards.top("repeated").map(s => [s.word, s.count]));
+}
+
+/** A channel that counted `hits` and flushed its stats, then stopped without closing. */
+async function counted(store: MemoryWordStatsStore, hits: WordHit[]): Promise<void> {
+  const leaderboards = await Leaderboards.load(store, [], 0);
+  for (const hit of hits) leaderboards.record(hit);
+  await leaderboards.flush();
+}
+
+describe("Leaderboards", () => {
+  it("rebuild from the stored words when the stats counted hits they lost", async () => {
+    const store = new MemoryWordStatsStore();
+    await counted(store, HITS);
+
+    // The words of the last two hits never made it to disk
+    const stored = HITS.slice(0, 2);
+    const leaderboards = await Leaderboards.load(store, stored, end(stored[1]));
+    assert.deepEqual(counts(leaderboards), { cat: 1, house: 1 });
+
+    // …so the channel's re-scan from the stored position counts them once
+    for (const hit of HITS.slice(2)) leaderboards.record(hit);
+    assert.deepEqual(counts(leaderboards), { cat: 2, house: 1, seat: 1 });
+    await leaderboards.close();
+  });
+
+  it("record the stored words the stats never counted", async () => {
+    const store = new MemoryWordStatsStore();
+    await counted(store, HITS.slice(0, 2));
+
+    const leaderboards = await Leaderboards.load(store, HITS, end(HITS[3]) + 5);
+    assert.deepEqual(counts(leaderboards), { cat: 2, house: 1, seat: 1 });
+    await leaderboards.close();
+
+    // Nothing is counted twice on the next boot
+    const again = await Leaderboards.load(store, HITS, end(HITS[3]) + 5);
+    assert.deepEqual(counts(again), { cat: 2, house: 1, seat: 1 });
+  });
+
+  it("keep a first occurrence's time through a rebuild", async () => {
+    const store = new MemoryWordStatsStore();
+    await counted(store, HITS);
+    const house = (await store.loadAll()).find(s => s.word === "house")!;
+    await store.save([{ ...house, firstAt: 1 }], end(HITS[3]));
+
+    const leaderboards = await Leaderboards.load(store, HITS.slice(0, 2), end(HITS[1]));
+    assert.equal(leaderboards.word("house")?.firstAt, 1);
+    assert.equal(leaderboards.word("seat"), undefined);
+  });
+
+  it("trust stats saved before they recorded how far they count", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "leaderboards-"));
+    scratch.push(dir);
+    const legacy: WordStats[] = [
+      { word: "cat", len: 3, dictionary: "english", rarity: 3, count: 7, firstStart: 0, firstAt: 1 },
+    ];
+    await fs.writeFile(path.join(dir, "word-stats.json"), JSON.stringify(legacy));
+
+    const store = new FileWordStatsStore(dir);
+    const leaderboards = await Leaderboards.load(store, HITS.slice(0, 1), 100);
+    assert.deepEqual(counts(leaderboards), { cat: 7 });
+
+    leaderboards.record(word(200, "cat"));
+    await leaderboards.close();
+    const reopened = new FileWordStatsStore(dir);
+    assert.equal(await reopened.loadCountedTo(), 203);
+    assert.deepEqual((await reopened.loadAll()).map(s => s.count), [8]);
+  });
+});
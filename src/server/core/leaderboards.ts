@@ -0,0 +1,245 @@
+import type { WordHit } from "./word-detector";
+import type { WordStatsStore } from "../storage/word-stats-store";
+import { leaderboardLogger as logger, logError } from "../utils/logger";
+
+/** Entries kept per ranked board. */
+export const LEADERBOARD_SIZE = 50;
+
+/** Batch stat writes the same way WordStore batches words. */
+const FLUSH_DELAY_MS = 5_000;
+
+/** Everything known about one distinct word (persisted per word). */
+export interface WordStats {
+  word: string;
+  len: number;
+  dictionary: string;
+  /** −log10 of the chance of typing the word (see Alphabet.rarity). */
+  rarity: number;
+  count: number;
+  /** Stream index of the first occurrence. */
+  firstStart: number;
+  /** When the first occurrence was detected (epoch ms). */
+  firstAt: number;
+}
+
+export type LeaderboardName = "longest" | "rarest" | "repeated";
+
+/** Ordering per board: negative when `a` ranks above `b`. */
+const RANKINGS: Record<LeaderboardName, (a: WordStats, b: WordStats) => number> = {
+  longest: (a, b) => b.len - a.len || a.firstStart - b.firstStart,
+  rarest: (a, b) => b.rarity - a.rarity || a.firstStart - b.firstStart,
+  repeated: (a, b) => b.count - a.count || a.firstStart - b.firstStart,
+};
+
+/** The best `size` entries under `compare`, kept sorted as stats change. */
+class TopList {
+  readonly entries: WordStats[] = [];
+  private readonly members = new Set<WordStats>();
+  private readonly size: number;
+  private readonly compare: (a: WordStats, b: WordStats) => number;
+
+  constructor(size: number, compare: (a: WordStats, b: WordStats) => number) {
+    this.size = size;
+    this.compare = compare;
+  }
+
+  /** Called after `stats` was added or improved its rank. */
+  offer(stats: WordStats) {
+    const list = this.entries;
+    let i: number;
+
+    if (this.members.has(stats)) {
+      i = list.indexOf(stats);
+    } else {
+      if (list.length >= this.size && this.compare(stats, list[list.length - 1]) >= 0) return;
+      list.push(stats);
+      this.members.add(stats);
+      i = list.length - 1;
+    }
+
+    // Bubble up to its place; everything else is already in order
+    while (i > 0 && this.compare(stats, list[i - 1]) < 0) {
+      list[i] = list[i - 1];
+      list[i - 1] = stats;
+      i--;
+    }
+
+    if (list.length > this.size) this.members.delete(list.pop()!);
+  }
+}
+
+/**
+ * All-time leaderboards for one channel, kept up to date hit by hit so
+ * requests never scan the word list:
+ * - longest / rarest / repeated — top LEADERBOARD_SIZE distinct words
+ * - first occurrence of every distinct word, in stream order
+ *
+ * Only primary hits count. Per-word stats are persisted through a
+ * WordStatsStore (`word-stats`, next to the channel's `words`), together
+ * with how far into the stream they count, so a boot after a crash can
+ * line them up with the stored words.
+ */
+export class Leaderboards {
+  private readonly store: WordStatsStore;
+  private stats = new Map<string, WordStats>();
+  /** Distinct words ordered by first occurrence. */
+  private firsts: WordStats[] = [];
+  private boards!: Record<LeaderboardName, TopList>;
+  /** End of the furthest hit counted so far. */
+  private countedTo = 0;
+
+  private readonly dirty = new Set<WordStats>();
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(store: WordStatsStore) {
+    this.store = store;
+    this.reset();
+  }
+
+  /**
+   * Load persisted stats and line them up with the stored words: `hits`
+   * in detection order and `position`, how far they were persisted. Stats
+   * and words are flushed separately, so after a crash either may be ahead:
+   * - stats counting hits past `position` are rebuilt from `hits`, as the
+   *   channel re-detects (and records) everything after it anyway;
+   * - stored hits past what the stats count are recorded now.
+   * Channels that predate leaderboards (no stats but stored words) are
+   * backfilled from `hits` once.
+   */
+  static async load(store: WordStatsStore, hits: WordHit[], position: number): Promise<Leaderboards> {
+    const leaderboards = new Leaderboards(store);
+    const [persisted, countedTo] = await Promise.all([store.loadAll(), store.loadCountedTo()]);
+
+    if (persisted.length === 0 && hits.length > 0) {
+      logger.info({ hits: hits.length }, 'Backfilling leaderboards from stored words');
+      await leaderboards.rebuild(hits);
+      return leaderboards;
+    }
+
+    persisted.sort((a, b) => a.firstStart - b.firstStart);
+    for (const stats of persisted) leaderboards.add(stats);
+
+    if (countedTo !== undefined && countedTo > position) {
+      logger.warn({ countedTo, position }, 'Leaderboards are ahead of the stored words; rebuilding them');
+      await leaderboards.rebuild(hits);
+    } else {
+      // Stores written before the watermark existed count every stored hit
+      leaderboards.countedTo = countedTo ?? position;
+      for (const hit of hits) {
+        if (hit.start + hit.len > leaderboards.countedTo) leaderboards.record(hit);
+      }
+    }
+    return leaderboards;
+  }
+
+  get distinctWords(): number {
+    return this.stats.size;
+  }
+
+  record(hit: WordHit) {
+    this.countedTo = Math.max(this.countedTo, hit.start + hit.len);
+    if (hit.kind !== "primary") return;
+
+    let stats = this.stats.get(hit.word);
+    if (stats) {
+      stats.count++;
+      if (hit.start < stats.firstStart) {
+        // Found by a re-scan of older text; move it up the firsts list
+        stats.firstStart = hit.start;
+        this.firsts.splice(this.firsts.indexOf(stats), 1);
+        this.insertFirst(stats);
+      }
+      this.boards.repeated.offer(stats);
+    } else {
+      stats = {
+        word: hit.word,
+        len: hit.len,
+        dictionary: hit.dictionary,
+        rarity: hit.rarity ?? 0,
+        count: 1,
+        firstStart: hit.start,
+        firstAt: Date.now(),
+      };
+      this.add(stats);
+    }
+
+    this.dirty.add(stats);
+    this.scheduleFlush();
+  }
+
+  /** Recompute everything from the full hit list (e.g. after a re-index). */
+  async rebuild(hits: WordHit[]): Promise<void> {
+    const previous = this.stats;
+    this.reset();
+    for (const hit of hits) this.record(hit);
+    for (const stats of this.stats.values()) {
+      const before = previous.get(stats.word);
+      if (before?.firstStart === stats.firstStart) stats.firstAt = before.firstAt;
+    }
+    await this.store.replaceAll([...this.stats.values()], this.countedTo);
+    this.dirty.clear();
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+  }
+
+  top(board: LeaderboardName, limit = LEADERBOARD_SIZE): WordStats[] {
+    return this.boards[board].entries.slice(0, limit).map(s => ({ ...s }));
+  }
+
+  word(word: string): WordStats | undefined {
+    const stats = this.stats.get(word);
+    return stats && { ...stats };
+  }
+
+  /** First occurrences in stream order. */
+  firstOccurrences(offset: number, limit: number): WordStats[] {
+    return this.firsts.slice(offset, offset + limit).map(s => ({ ...s }));
+  }
+
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (this.dirty.size === 0) return;
+
+    const batch = [...this.dirty].map(s => ({ ...s }));
+    this.dirty.clear();
+    await this.store.save(batch, this.countedTo);
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  private reset() {
+    this.stats = new Map();
+    this.firsts = [];
+    this.countedTo = 0;
+    this.boards = {
+      longest: new TopList(LEADERBOARD_SIZE, RANKINGS.longest),
+      rarest: new TopList(LEADERBOARD_SIZE, RANKINGS.rarest),
+      repeated: new TopList(LEADERBOARD_SIZE, RANKINGS.repeated),
+    };
+  }
+
+  private add(stats: WordStats) {
+    this.stats.set(stats.word, stats);
+    this.insertFirst(stats);
+    this.boards.longest.offer(stats);
+    this.boards.rarest.offer(stats);
+    this.boards.repeated.offer(stats);
+  }
+
+  /** Keep `firsts` sorted; live words almost always belong at the end. */
+  private insertFirst(stats: WordStats) {
+    let i = this.firsts.length;
+    while (i > 0 && this.firsts[i - 1].firstStart > stats.firstStart) i--;
+    this.firsts.splice(i, 0, stats);
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch(err => logError(logger, err, { context: 'leaderboards-flush' }));
+    }, FLUSH_DELAY_MS);
+  }
+}
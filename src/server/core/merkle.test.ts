@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MerkleTree, verifyInclusion } from "./merkle";
+
+/**
+ * The RFC 6962 reference vectors (as used by Certificate Transparency's
+ * implementations): eight leaves of raw data, the root of every prefix of
+ * them, and audit paths for a few leaves.
+ */
+const LEAVES = [
+  "", "00", "10", "2021", "3031", "40414243", "5051525354555657", "606162636465666768696a6b6c6d6e6f",
+].map(hex => Buffer.from(hex, "hex"));
+
+const ROOTS = [
+  "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+  "6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d",
+  "fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125",
+  "aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77",
+  "d37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7",
+  "4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4",
+  "76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef",
+  "ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c",
+  "5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328",
+];
+
+const PROOFS: { index: number; size: number; proof: string[] }[] = [
+  { index: 0, size: 1, proof: [] },
+  {
+    index: 0,
+    size: 8,
+    proof: [
+      "96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7",
+      "5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e",
+      "6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4",
+    ],
+  },
+  {
+    index: 5,
+    size: 8,
+    proof: [
+      "bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b",
+      "ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0",
+      "d37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7",
+    ],
+  },
+  { index: 2, size: 3, proof: ["fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125"] },
+  {
+    index: 1,
+    size: 5,
+    proof: [
+      "6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d",
+      "5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e",
+      "bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b",
+    ],
+  },
+];
+
+function tree(leaves: Buffer[]): MerkleTree {
+  const out = new MerkleTree();
+  for (const leaf of leaves) out.append(leaf);
+  return out;
+}
+
+const hex = (hashes: Buffer[]) => hashes.map(h => h.toString("hex"));
+
+describe("MerkleTree", () => {
+  it("computes the reference root of every tree size", () => {
+    const full = tree(LEAVES);
+    for (let size = 0; size <= LEAVES.length; size++) {
+      assert.equal(full.root(size).toString("hex"), ROOTS[size], `size ${size}`);
+      assert.equal(tree(LEAVES.slice(0, size)).root().toString("hex"), ROOTS[size], `grown to ${size}`);
+    }
+  });
+
+  it("builds and verifies the reference audit paths", () => {
+    const full = tree(LEAVES);
+    for (const { index, size, proof } of PROOFS) {
+      assert.deepEqual(hex(full.proof(index, size)), proof, `leaf ${index} of ${size}`);
+      const path = proof.map(h => Buffer.from(h, "hex"));
+      assert.ok(verifyInclusion(LEAVES[index], index, size, path, Buffer.from(ROOTS[size], "hex")));
+    }
+  });
+
+  it("proves every leaf of every size, the last one included", () => {
+    const leaves = Array.from({ length: 33 }, (_, i) => Buffer.from([i, i * 7]));
+    const full = tree(leaves);
+    for (let size = 1; size <= leaves.length; size++) {
+      const root = full.root(size);
+      for (let index = 0; index < size; index++) {
+        assert.ok(verifyInclusion(leaves[index], index, size, full.proof(index, size), root), `leaf ${index} of ${size}`);
+      }
+    }
+  });
+
+  it("rejects proofs for the wrong leaf, position, size or root", () => {
+    const full = tree(LEAVES);
+    const root = full.root(7);
+    const proof = full.proof(6, 7);
+    assert.ok(verifyInclusion(LEAVES[6], 6, 7, proof, root));
+
+    assert.ok(!verifyInclusion(LEAVES[5], 6, 7, proof, root));
+    assert.ok(!verifyInclusion(LEAVES[6], 5, 7, proof, root));
+    assert.ok(!verifyInclusion(LEAVES[6], 6, 8, proof, full.root(8)));
+    assert.ok(!verifyInclusion(LEAVES[6], 6, 7, proof, full.root(6)));
+    assert.ok(!verifyInclusion(LEAVES[6], 6, 7, proof.slice(1), root));
+    assert.ok(!verifyInclusion(LEAVES[6], 6, 7, [...proof, proof[0]], root));
+    assert.ok(!verifyInclusion(LEAVES[6], 7, 7, proof, root));
+  });
+
+  it("refuses sizes and leaves outside the tree", () => {
+    const full = tree(LEAVES.slice(0, 3));
+    assert.throws(() => full.root(4), RangeError);
+    assert.throws(() => full.proof(3, 3), RangeError);
+    assert.throws(() => full.proof(0, 0), RangeError);
+  });
+});
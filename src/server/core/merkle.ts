@@ -0,0 +1,139 @@
+import { createHash } from "node:crypto";
+
+/* ────────────────────────────────────────────────────────────── */
+/*  Merkle tree over chunk hashes, shaped as in RFC 6962 / 9162   */
+/*  (Certificate Transparency) so standard verifiers apply:       */
+/*    chunk hash  sha256(UTF-8 chunk text)                        */
+/*    leaf        sha256(0x00 ‖ chunk hash)                       */
+/*    node        sha256(0x01 ‖ left ‖ right)                     */
+/*  A tree of n leaves splits at the largest power of two below   */
+/*  n, so every complete subtree is aligned and kept per level:   */
+/*  appends cost O(log n), roots and proofs O(log² n).            */
+/* ────────────────────────────────────────────────────────────── */
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+function sha256(...parts: Uint8Array[]): Buffer {
+  const hash = createHash("sha256");
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+/** Content hash of one chunk's text. */
+export function chunkHash(text: string): Buffer {
+  return sha256(Buffer.from(text, "utf8"));
+}
+
+export function leafHash(chunk: Uint8Array): Buffer {
+  return sha256(LEAF_PREFIX, chunk);
+}
+
+export function nodeHash(left: Uint8Array, right: Uint8Array): Buffer {
+  return sha256(NODE_PREFIX, left, right);
+}
+
+/** Largest power of two strictly below `n` (n ≥ 2). */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+export class MerkleTree {
+  /** levels[k][i] = hash of the complete subtree over leaves [i·2^k, (i+1)·2^k). */
+  private readonly levels: Buffer[][] = [[]];
+
+  get size() {
+    return this.levels[0].length;
+  }
+
+  /** Append the leaf for `chunk` (a chunk hash). */
+  append(chunk: Uint8Array): void {
+    this.levels[0].push(leafHash(chunk));
+
+    // Every odd index completes a pair one level up
+    let index = this.size - 1;
+    for (let level = 0; index % 2 === 1; level++) {
+      const row = this.levels[level];
+      (this.levels[level + 1] ??= []).push(nodeHash(row[index - 1], row[index]));
+      index = (index - 1) / 2;
+    }
+  }
+
+  /** Root of the first `size` leaves (any earlier tree size works too). */
+  root(size: number = this.size): Buffer {
+    this.checkSize(size);
+    return size === 0 ? sha256() : this.hash(0, size);
+  }
+
+  /**
+   * Audit path proving leaf `index` is in the tree of the first `size`
+   * leaves: sibling hashes from the leaf up (RFC 9162 §2.1.3.1).
+   */
+  proof(index: number, size: number = this.size): Buffer[] {
+    this.checkSize(size);
+    if (!Number.isInteger(index) || index < 0 || index >= size) {
+      throw new RangeError(`Leaf ${index} is not in a tree of ${size}`);
+    }
+    return this.path(index, 0, size);
+  }
+
+  /** Hash of leaves [from, to). */
+  private hash(from: number, to: number): Buffer {
+    const n = to - from;
+    if ((n & (n - 1)) === 0 && from % n === 0) {
+      return this.levels[Math.log2(n)][from / n];
+    }
+    const k = splitPoint(n);
+    return nodeHash(this.hash(from, from + k), this.hash(from + k, to));
+  }
+
+  private path(index: number, from: number, to: number): Buffer[] {
+    if (to - from === 1) return [];
+    const k = splitPoint(to - from);
+    return index < from + k
+      ? [...this.path(index, from, from + k), this.hash(from + k, to)]
+      : [...this.path(index, from + k, to), this.hash(from, from + k)];
+  }
+
+  private checkSize(size: number) {
+    if (!Number.isInteger(size) || size < 0 || size > this.size) {
+      throw new RangeError(`Tree size ${size} is outside 0–${this.size}`);
+    }
+  }
+}
+
+/**
+ * Check an audit path (RFC 9162 §2.1.3.2). What a viewer runs with the
+ * chunk text they were shown, the proof and a root they trust.
+ */
+export function verifyInclusion(
+  chunk: Uint8Array,
+  index: number,
+  size: number,
+  proof: Uint8Array[],
+  root: Uint8Array,
+): boolean {
+  if (index < 0 || index >= size) return false;
+
+  let fn = index;
+  let sn = size - 1;
+  let r = leafHash(chunk);
+
+  for (const p of proof) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      r = nodeHash(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 && r.equals(root);
+}
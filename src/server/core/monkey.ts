@@ -1,33 +1,51 @@
 import { EventEmitter } from "events";
 import * as prand from "pure-rand";
 import type { ChunkStore } from "../storage/chunk-store";
+import type { Alphabet } from "./alphabet";
+import { createRng, DEFAULT_GENERATOR, type GeneratorConfig } from "./generator-config";
 import { monkeyLogger as logger } from "../utils/logger";
 
 export interface MonkeyTick { index: number; ch: string; }
+/** A contiguous run of generated text starting at absolute index `start`. */
+export interface MonkeyBatch { start: number; text: string; }
 
 /**
- * Deterministic pseudo‑random a‑z generator writing straight into a ChunkStore.
+ * Deterministic pseudo‑random generator writing straight into a ChunkStore.
  * Injection of the store decouples generation from persistence.
+ *
+ * Events: "batch" (MonkeyBatch) for every run written, including single
+ * chars from next(); "tick" (MonkeyTick) per char, only computed when
+ * someone listens.
  */
 export class Monkey extends EventEmitter {
-  private rng = prand.xoroshiro128plus(0x6C656F);
+  private rng: prand.RandomGenerator;
   private readonly store: ChunkStore;
+  readonly generator: GeneratorConfig;
+  /** Tail of the write queue; batches must hit the store in RNG order. */
+  private pending: Promise<unknown> = Promise.resolve();
   private generatedCount = 0;
   private lastLogTime = Date.now();
 
-  constructor(store: ChunkStore, startPosition: number = 0) {
+  constructor(store: ChunkStore, startPosition: number = 0, generator: GeneratorConfig = DEFAULT_GENERATOR) {
     super();
     this.store = store;
+    this.generator = generator;
+    this.rng = createRng(generator);
     
     logger.info({
       startPosition,
-      seed: '0x6C656F',
+      seed: '0x' + (generator.seed >>> 0).toString(16).toUpperCase(),
+      algorithm: generator.algorithm,
+      alphabet: this.alphabet.name,
+      alphabetSize: this.alphabet.size,
     }, 'Initializing Monkey generator');
     
     // Fast-forward the RNG to match the current position
     this.advanceRngToPosition(startPosition);
   }
   
+  get alphabet(): Alphabet { return this.generator.alphabet; }
+
   /**
    * Advance the RNG state to match the given position.
    * This is crucial for maintaining deterministic behavior across restarts.
@@ -46,39 +64,61 @@ export class Monkey extends EventEmitter {
     }
   }
 
-  /** Generate and persist one character, emitting an async Tick event. */
+  /** Generate and persist one character. */
   async next(): Promise<MonkeyTick> {
-    const [letter, nextRng] = prand.uniformIntDistribution(0, 25, this.rng);
+    const { start, text } = await this.nextBatch(1);
+    return { index: start, ch: text };
+  }
+
+  /**
+   * Generate `n` characters in one go and persist them with a single
+   * `appendMany`, which takes care of chunk boundaries. Concurrent callers
+   * (live loop, catch-up) are queued so the stream never interleaves.
+   */
+  nextBatch(n: number): Promise<MonkeyBatch> {
+    const result = this.pending.then(() => this.generate(n));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async generate(n: number): Promise<MonkeyBatch> {
+    const [text, nextRng] = this.alphabet.sampleMany(this.rng, n);
     this.rng = nextRng;
-    const ch = String.fromCharCode(97 + letter);
     
     try {
-      const idx = await this.store.append(ch);
-      const tick = { index: idx, ch } as const;
-      this.emit("tick", tick);
+      const start = await this.store.appendMany(text);
+
+      const batch: MonkeyBatch = { start, text };
+      this.emit("batch", batch);
+      if (this.listenerCount("tick") > 0) {
+        for (let i = 0; i < text.length; i++) {
+          this.emit("tick", { index: start + i, ch: text[i] } satisfies MonkeyTick);
+        }
+      }
       
-      this.generatedCount++;
+      this.generatedCount += n;
       
       // Log generation statistics every 60 seconds
       if (Date.now() - this.lastLogTime > 60_000) {
         logger.info({
           totalGenerated: this.generatedCount,
           rate: (this.generatedCount / 60).toFixed(2),
-          currentIndex: idx,
+          currentIndex: start + n - 1,
         }, 'Generation statistics');
         this.generatedCount = 0;
         this.lastLogTime = Date.now();
       }
       
-      logger.trace({ index: idx, char: ch }, 'Character generated');
+      logger.trace({ start, length: n }, 'Characters generated');
       
-      return tick;
+      return batch;
     } catch (error) {
       logger.error({
         error,
-        char: ch,
-      }, 'Failed to generate character');
+        start: this.store.cursor,
+        length: n,
+      }, 'Failed to generate characters');
       throw error;
     }
   }
-}
\ No newline at end of file
+}
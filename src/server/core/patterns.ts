@@ -0,0 +1,263 @@
+import { EventEmitter } from "events";
+
+/** A non-dictionary pattern found in the stream. */
+export interface PatternHit {
+  /** Name of the plugin that found it. */
+  plugin: string;
+  start: number;
+  len: number;
+  text: string;
+}
+
+/**
+ * A detector fed the stream one char at a time, in order. Plugins keep
+ * whatever state they need and report a hit once it is final — patterns
+ * that can keep growing (runs, palindromes) are reported when they stop.
+ */
+export interface PatternPlugin {
+  /** Unique per channel; also the Socket.IO event suffix (`pattern:<name>`). */
+  readonly name: string;
+  readonly type: PatternSpec["type"];
+  /** Longest hit the plugin can report; re-scans feed this much context. */
+  readonly maxLength: number;
+  push(ch: string, position: number): PatternHit[] | undefined;
+  /** Serializable internal state, saved with the cursor. */
+  snapshot(): object;
+  restore(state: object): void;
+}
+
+interface LengthBounds {
+  name?: string;
+  /** Shortest pattern worth reporting. */
+  minLength?: number;
+  /** Longer patterns are cut (and reported) at this length. */
+  maxLength?: number;
+}
+
+/** Serializable plugin config, as written in the channels file. */
+export type PatternSpec =
+  | ({ type: "palindrome" } & LengthBounds)
+  | ({ type: "run" } & LengthBounds)
+  | ({ type: "alphabetical" } & LengthBounds)
+  | { type: "regex"; name: string; pattern: string; window?: number };
+
+/** Enabled when a channel doesn't list its own. */
+export const DEFAULT_PATTERNS: PatternSpec[] = [
+  { type: "palindrome" },
+  { type: "run" },
+  { type: "alphabetical" },
+];
+
+const PLUGIN_NAME = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const DEFAULT_MAX_LENGTH = 64;
+const DEFAULT_REGEX_WINDOW = 32;
+
+/* ---------- built-in plugins ------------------------------------ */
+
+/**
+ * Maximal palindromes ("racecar"). Tracks the lengths of all palindromic
+ * suffixes; one that can't grow with the next char is maximal.
+ */
+export class PalindromePlugin implements PatternPlugin {
+  readonly type = "palindrome";
+  readonly name: string;
+  readonly maxLength: number;
+  private readonly minLength: number;
+  /** Last maxLength+1 chars. */
+  private buffer = "";
+  /** Lengths of the palindromes ending at the previous char. */
+  private lengths: number[] = [];
+
+  constructor(spec: LengthBounds = {}) {
+    this.name = spec.name ?? "palindrome";
+    this.minLength = spec.minLength ?? 7;
+    this.maxLength = spec.maxLength ?? DEFAULT_MAX_LENGTH;
+  }
+
+  push(ch: string, position: number): PatternHit[] | undefined {
+    this.buffer = (this.buffer + ch).slice(-(this.maxLength + 1));
+    const last = this.buffer.length - 1;
+    let hits: PatternHit[] | undefined;
+    const next: number[] = [1];
+    if (this.buffer[last - 1] === ch) next.push(2);
+
+    for (const len of this.lengths) {
+      const before = last - len - 1;
+      if (before >= 0 && len + 2 <= this.maxLength && this.buffer[before] === ch) {
+        next.push(len + 2);
+      } else if (len >= this.minLength) {
+        (hits ??= []).push({ plugin: this.name, start: position - len, len, text: this.buffer.slice(last - len, last) });
+      }
+    }
+
+    this.lengths = next;
+    return hits;
+  }
+
+  snapshot() {
+    return { buffer: this.buffer, lengths: [...this.lengths] };
+  }
+
+  restore(state: object) {
+    ({ buffer: this.buffer, lengths: this.lengths } = state as ReturnType<PalindromePlugin["snapshot"]>);
+  }
+}
+
+/** Base for patterns that grow one char at a time and break on a mismatch. */
+abstract class RunPluginBase implements PatternPlugin {
+  abstract readonly type: "run" | "alphabetical";
+  readonly name: string;
+  readonly maxLength: number;
+  private readonly minLength: number;
+  private prev = "";
+  private text = "";
+
+  constructor(defaultName: string, spec: LengthBounds) {
+    this.name = spec.name ?? defaultName;
+    this.minLength = spec.minLength ?? 5;
+    this.maxLength = spec.maxLength ?? DEFAULT_MAX_LENGTH;
+  }
+
+  protected abstract continues(prev: string, ch: string): boolean;
+
+  push(ch: string, position: number): PatternHit[] | undefined {
+    if (this.text && this.text.length < this.maxLength && this.continues(this.prev, ch)) {
+      this.text += ch;
+      this.prev = ch;
+      return undefined;
+    }
+
+    const done = this.text;
+    this.text = ch;
+    this.prev = ch;
+    return done.length >= this.minLength
+      ? [{ plugin: this.name, start: position - done.length, len: done.length, text: done }]
+      : undefined;
+  }
+
+  snapshot() {
+    return { prev: this.prev, text: this.text };
+  }
+
+  restore(state: object) {
+    ({ prev: this.prev, text: this.text } = state as ReturnType<RunPluginBase["snapshot"]>);
+  }
+}
+
+/** One letter repeated ("eeeee"). */
+export class RunPlugin extends RunPluginBase {
+  readonly type = "run";
+  constructor(spec: LengthBounds = {}) { super("run", spec); }
+  protected continues(prev: string, ch: string) { return ch === prev; }
+}
+
+/** Consecutive letters in alphabet order ("abcde"). */
+export class AlphabeticalRunPlugin extends RunPluginBase {
+  readonly type = "alphabetical";
+  constructor(spec: LengthBounds = {}) { super("alphabetical", spec); }
+  protected continues(prev: string, ch: string) { return ch.charCodeAt(0) === prev.charCodeAt(0) + 1; }
+}
+
+/**
+ * User-defined regex, tested against the last `window` chars at every
+ * position. Reports the longest match ending there that doesn't overlap
+ * the previous hit.
+ */
+export class RegexPlugin implements PatternPlugin {
+  readonly type = "regex";
+  readonly name: string;
+  readonly maxLength: number;
+  private readonly regex: RegExp;
+  private buffer = "";
+  private lastEnd = -1;
+
+  constructor(spec: { name: string; pattern: string; window?: number }) {
+    this.name = spec.name;
+    this.maxLength = spec.window ?? DEFAULT_REGEX_WINDOW;
+    this.regex = new RegExp(`(?:${spec.pattern})$`);
+    if (this.regex.test("")) throw new Error(`Pattern "${spec.name}" matches the empty string`);
+  }
+
+  push(ch: string, position: number): PatternHit[] | undefined {
+    this.buffer = (this.buffer + ch).slice(-this.maxLength);
+    const match = this.regex.exec(this.buffer);
+    if (!match) return undefined;
+
+    const start = position - match[0].length + 1;
+    if (start <= this.lastEnd) return undefined;
+    this.lastEnd = position;
+    return [{ plugin: this.name, start, len: match[0].length, text: match[0] }];
+  }
+
+  snapshot() {
+    return { buffer: this.buffer, lastEnd: this.lastEnd };
+  }
+
+  restore(state: object) {
+    ({ buffer: this.buffer, lastEnd: this.lastEnd } = state as ReturnType<RegexPlugin["snapshot"]>);
+  }
+}
+
+export function createPatternPlugin(spec: PatternSpec): PatternPlugin {
+  let plugin: PatternPlugin;
+  switch (spec.type) {
+    case "palindrome":   plugin = new PalindromePlugin(spec); break;
+    case "run":          plugin = new RunPlugin(spec); break;
+    case "alphabetical": plugin = new AlphabeticalRunPlugin(spec); break;
+    case "regex":        plugin = new RegexPlugin(spec); break;
+    default:
+      throw new Error(`Unknown pattern type "${(spec as { type: string }).type}"`);
+  }
+  if (!PLUGIN_NAME.test(plugin.name)) {
+    throw new Error(`Invalid pattern name "${plugin.name}" (lowercase letters, digits and dashes)`);
+  }
+  if (!Number.isInteger(plugin.maxLength) || plugin.maxLength < 2) {
+    throw new Error(`Pattern "${plugin.name}" needs a maxLength / window of at least 2`);
+  }
+  return plugin;
+}
+
+/** Serializable engine state: plugin name → plugin state. */
+export type PatternEngineState = Record<string, object>;
+
+/**
+ * Runs a channel's pattern plugins over the char stream.
+ *
+ * Events: "hit" (PatternHit)
+ */
+export class PatternEngine extends EventEmitter {
+  readonly plugins: PatternPlugin[];
+
+  constructor(specs: PatternSpec[]) {
+    super();
+    this.plugins = specs.map(createPatternPlugin);
+    const names = new Set(this.plugins.map(p => p.name));
+    if (names.size !== this.plugins.length) throw new Error("Duplicate pattern names");
+  }
+
+  /** Longest hit any plugin can report. */
+  get maxLength(): number {
+    return Math.max(0, ...this.plugins.map(p => p.maxLength));
+  }
+
+  snapshot(): PatternEngineState {
+    return Object.fromEntries(this.plugins.map(p => [p.name, p.snapshot()]));
+  }
+
+  /** Plugins missing from the snapshot (configured since) start from scratch. */
+  restore(state: PatternEngineState) {
+    for (const plugin of this.plugins) {
+      if (state[plugin.name]) plugin.restore(state[plugin.name]);
+    }
+  }
+
+  /** Process a run of characters; `text[0]` sits at `startPosition`. */
+  pushMany(text: string, startPosition: number) {
+    for (const plugin of this.plugins) {
+      for (let i = 0; i < text.length; i++) {
+        const hits = plugin.push(text[i], startPosition + i);
+        if (hits) for (const hit of hits) this.emit("hit", hit);
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryChunkStore } from "../storage/memory-chunk-store";
+import { PhraseWatcher, type PhraseComplete, type PhraseProgress } from "./phrase-watcher";
+
+/** Deterministic text over `alphabet` (a small LCG, so failures reproduce). */
+function text(length: number, alphabet: string, seed = 1): string {
+  let out = "";
+  let x = seed;
+  for (let i = 0; i < length; i++) {
+    x = (x * 1103515245 + 12345) % 2 ** 31;
+    out += alphabet[(x >> 8) % alphabet.length];
+  }
+  return out;
+}
+
+/** Start of every occurrence of `phrase`, overlapping ones included. */
+function occurrences(input: string, phrase: string): number[] {
+  const out: number[] = [];
+  for (let at = input.indexOf(phrase); at >= 0; at = input.indexOf(phrase, at + 1)) out.push(at);
+  return out;
+}
+
+/** Push `input` in runs of the given sizes (cycled); returns the completion starts per phrase. */
+async function watch(phrases: string[], input: string, runs: number[]): Promise<Map<string, number[]>> {
+  const watcher = new PhraseWatcher(new MemoryChunkStore());
+  for (const phrase of phrases) await watcher.add(phrase);
+  const found = new Map<string, number[]>(phrases.map(p => [p, []]));
+  watcher.on("complete", (event: PhraseComplete) => found.get(event.phrase)!.push(event.start));
+
+  for (let at = 0, i = 0; at < input.length; at += runs[i++ % runs.length]) {
+    watcher.pushMany(input.slice(at, at + runs[i % runs.length]), at);
+  }
+  await watcher.close();
+  return found;
+}
+
+describe("PhraseWatcher", () => {
+  const PHRASES = ["abab", "aab", "abaab", "bbb", "a"];
+  const INPUT = text(20_000, "ab");
+
+  it("finds every occurrence, overlapping ones included", async () => {
+    const found = await watch(PHRASES, INPUT, [INPUT.length]);
+    for (const phrase of PHRASES) assert.deepEqual(found.get(phrase), occurrences(INPUT, phrase), phrase);
+  });
+
+  it("finds the same occurrences across batch boundaries", async () => {
+    const whole = await watch(PHRASES, INPUT, [INPUT.length]);
+    assert.deepEqual(await watch(PHRASES, INPUT, [1]), whole);
+    assert.deepEqual(await watch(PHRASES, INPUT, [2, 3, 5, 7, 11]), whole);
+  });
+
+  it("reports each new longest prefix once", async () => {
+    const watcher = new PhraseWatcher(new MemoryChunkStore());
+    await watcher.add("hello");
+    const progress: PhraseProgress[] = [];
+    watcher.on("progress", (event: PhraseProgress) => progress.push(event));
+
+    watcher.pushMany("xhexhel", 0);
+    watcher.pushMany("lhel", 7);
+    assert.deepEqual(progress.map(p => [p.length, p.start]), [[1, 1], [2, 1], [3, 4], [4, 4]]);
+    const record = watcher.get("hello")!;
+    assert.deepEqual([record.bestLength, record.bestStart, record.completions], [4, 4, 0]);
+    await watcher.close();
+  });
+
+  it("resumes a match from a snapshot", async () => {
+    const store = new MemoryChunkStore();
+    const first = new PhraseWatcher(store);
+    await first.add("monkey");
+    first.pushMany("a monk", 0);
+    await first.close();
+
+    const resumed = await PhraseWatcher.load(store);
+    resumed.restore(first.snapshot());
+    const completions: PhraseComplete[] = [];
+    resumed.on("complete", (event: PhraseComplete) => completions.push(event));
+    resumed.pushMany("ey!", 6);
+
+    assert.deepEqual(completions, [{ phrase: "monkey", start: 2, completions: 1 }]);
+    await resumed.close();
+
+    const reloaded = await PhraseWatcher.load(store);
+    assert.equal(reloaded.get("monkey")?.completions, 1);
+    assert.equal(reloaded.get("monkey")?.firstCompletedStart, 2);
+  });
+});
@@ -0,0 +1,217 @@
+import { EventEmitter } from "events";
+import type { ChunkStore } from "../storage/chunk-store";
+import { phraseLogger as logger, logError } from "../utils/logger";
+
+/** Meta key holding the watch list and its records. */
+export const PHRASES_META_KEY = "phrases";
+
+export const MAX_PHRASES = 100;
+export const MAX_PHRASE_LENGTH = 256;
+
+/** Progress is frequent early on; batch the meta writes. */
+const SAVE_DELAY_MS = 5_000;
+
+/** Everything known about one watched phrase (persisted as-is). */
+export interface PhraseRecord {
+  phrase: string;
+  addedAt: number;
+  /** Longest prefix typed since the phrase was added. */
+  bestLength: number;
+  /** Stream index where that prefix starts; null until its first char shows up. */
+  bestStart: number | null;
+  bestAt: number | null;
+  /** How often the whole phrase has been typed. */
+  completions: number;
+  firstCompletedStart: number | null;
+}
+
+export interface PhraseProgress {
+  phrase: string;
+  /** New longest prefix. */
+  length: number;
+  start: number;
+  /** 0–1 */
+  progress: number;
+}
+
+export interface PhraseComplete {
+  phrase: string;
+  start: number;
+  completions: number;
+}
+
+/** Serializable matcher state: prefix length matched per phrase. */
+export type PhraseWatcherState = { phrase: string; state: number }[];
+
+interface PhrasesMeta {
+  records: PhraseRecord[];
+}
+
+/** KMP matcher for one phrase: `state` = length of the prefix ending at the last char. */
+class PhraseTracker {
+  readonly record: PhraseRecord;
+  private readonly phrase: string;
+  /** fail[i] = longest proper border of phrase[0..i] */
+  private readonly fail: Int32Array;
+  state = 0;
+
+  constructor(record: PhraseRecord) {
+    this.record = record;
+    this.phrase = record.phrase;
+    this.fail = new Int32Array(this.phrase.length);
+    for (let i = 1, k = 0; i < this.phrase.length; i++) {
+      while (k > 0 && this.phrase[i] !== this.phrase[k]) k = this.fail[k - 1];
+      if (this.phrase[i] === this.phrase[k]) k++;
+      this.fail[i] = k;
+    }
+  }
+
+  step(ch: string): number {
+    let k = this.state;
+    if (k === this.phrase.length) k = this.fail[k - 1];
+    while (k > 0 && this.phrase[k] !== ch) k = this.fail[k - 1];
+    if (this.phrase[k] === ch) k++;
+    return this.state = k;
+  }
+}
+
+/**
+ * Follows every phrase on a channel's watch list through the live stream,
+ * recording the longest prefix typed so far and each full completion.
+ * Records live in `meta/phrases` next to the chunks.
+ *
+ * Events: "progress" (PhraseProgress), "complete" (PhraseComplete)
+ */
+export class PhraseWatcher extends EventEmitter {
+  private readonly store: ChunkStore;
+  private readonly trackers = new Map<string, PhraseTracker>();
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(store: ChunkStore, records: PhraseRecord[] = []) {
+    super();
+    this.store = store;
+    for (const record of records) this.trackers.set(record.phrase, new PhraseTracker(record));
+  }
+
+  static async load(store: ChunkStore): Promise<PhraseWatcher> {
+    const meta = await store.readMeta<PhrasesMeta>(PHRASES_META_KEY);
+    return new PhraseWatcher(store, meta?.records ?? []);
+  }
+
+  get size(): number {
+    return this.trackers.size;
+  }
+
+  /** Longest watched phrase; priming needs one char less of context. */
+  get maxLength(): number {
+    let max = 0;
+    for (const phrase of this.trackers.keys()) max = Math.max(max, phrase.length);
+    return max;
+  }
+
+  list(): PhraseRecord[] {
+    return [...this.trackers.values()].map(t => ({ ...t.record }));
+  }
+
+  get(phrase: string): PhraseRecord | undefined {
+    const tracker = this.trackers.get(phrase);
+    return tracker && { ...tracker.record };
+  }
+
+  /** Start watching `phrase` from the current position on. */
+  async add(phrase: string): Promise<PhraseRecord> {
+    let tracker = this.trackers.get(phrase);
+    if (!tracker) {
+      tracker = new PhraseTracker({
+        phrase,
+        addedAt: Date.now(),
+        bestLength: 0,
+        bestStart: null,
+        bestAt: null,
+        completions: 0,
+        firstCompletedStart: null,
+      });
+      this.trackers.set(phrase, tracker);
+      logger.info({ phrase, watched: this.trackers.size }, 'Phrase added');
+      await this.save();
+    }
+    return { ...tracker.record };
+  }
+
+  async remove(phrase: string): Promise<boolean> {
+    if (!this.trackers.delete(phrase)) return false;
+    logger.info({ phrase, watched: this.trackers.size }, 'Phrase removed');
+    await this.save();
+    return true;
+  }
+
+  snapshot(): PhraseWatcherState {
+    return [...this.trackers.values()].map(t => ({ phrase: t.record.phrase, state: t.state }));
+  }
+
+  /** Phrases missing from the snapshot (added since) start from scratch. */
+  restore(saved: PhraseWatcherState) {
+    for (const { phrase, state } of saved) {
+      const tracker = this.trackers.get(phrase);
+      if (tracker) tracker.state = Math.min(state, phrase.length);
+    }
+  }
+
+  /** Advance the matchers over already-processed text without recording anything. */
+  prime(text: string) {
+    for (const tracker of this.trackers.values()) {
+      for (let i = 0; i < text.length; i++) tracker.step(text[i]);
+    }
+  }
+
+  /** Process a run of characters; `text[0]` sits at `startPosition`. */
+  pushMany(text: string, startPosition: number) {
+    if (this.trackers.size === 0) return;
+
+    for (const tracker of this.trackers.values()) {
+      const { record } = tracker;
+      const full = record.phrase.length;
+
+      for (let i = 0; i < text.length; i++) {
+        const length = tracker.step(text[i]);
+        if (length <= record.bestLength && length < full) continue;
+
+        const position = startPosition + i;
+        const start = position - length + 1;
+
+        if (length > record.bestLength) {
+          record.bestLength = length;
+          record.bestStart = start;
+          record.bestAt = Date.now();
+          this.emit("progress", { phrase: record.phrase, length, start, progress: length / full } satisfies PhraseProgress);
+          this.scheduleSave();
+        }
+
+        if (length === full) {
+          record.completions++;
+          record.firstCompletedStart ??= start;
+          logger.info({ phrase: record.phrase, start, completions: record.completions }, 'Phrase completed');
+          this.emit("complete", { phrase: record.phrase, start, completions: record.completions } satisfies PhraseComplete);
+          this.scheduleSave();
+        }
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.saveTimer) await this.save();
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.save().catch(err => logError(logger, err, { context: 'phrase-save' }));
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    await this.store.writeMeta(PHRASES_META_KEY, { records: this.list() } satisfies PhrasesMeta);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRatePolicy, DEFAULT_RATE, type RateInput } from "./rate-policy";
+
+const MINUTE = 60_000;
+
+function input(realUsers: number, now: number | string = 0, syntheticUsers = 0): RateInput {
+  return { realUsers, syntheticUsers, now: new Date(now) };
+}
+
+describe("rate policies", () => {
+  it("keeps the old per-user speed by default", () => {
+    assert.deepEqual(createRatePolicy(DEFAULT_RATE).evaluate(input(2, 0, 3)), {
+      policy: "per-user",
+      realUsers: 2,
+      syntheticUsers: 253,
+      users: 255,
+      charsPerMinute: 1275,
+    });
+  });
+
+  it("types at a constant speed whoever watches", () => {
+    const policy = createRatePolicy({ type: "constant", cpm: 600 });
+    assert.equal(policy.evaluate(input(0)).charsPerMinute, 600);
+    assert.equal(policy.evaluate(input(40, 0, 7)).charsPerMinute, 600);
+    assert.equal(policy.evaluate(input(40, 0, 7)).users, 47);
+  });
+
+  it("follows the schedule by UTC hour, wrapping past midnight", () => {
+    const policy = createRatePolicy({ type: "schedule", hours: { "8": 300, "20": 60 } });
+    const at = (hour: string) => policy.evaluate(input(1, `2026-01-01T${hour}:30:00Z`)).charsPerMinute;
+    assert.deepEqual(["00", "07", "08", "19", "20", "23"].map(at), [60, 60, 300, 300, 60, 60]);
+  });
+
+  it("bursts above the cap until the bucket runs dry, then refills below it", () => {
+    const policy = createRatePolicy({
+      type: "capped-burst",
+      inner: { type: "per-user", cpmPerUser: 10 },
+      maxCpm: 100,
+      burstCpm: 150,
+      burstChars: 100,
+    });
+    const cpm = (users: number, minutes: number) => policy.evaluate(input(users, minutes * MINUTE)).charsPerMinute;
+
+    assert.equal(cpm(20, 0), 150);  // full bucket: burst speed
+    assert.equal(cpm(20, 1), 150);  // 50 chars over the cap spent, 50 left
+    assert.equal(cpm(20, 2), 100);  // empty: held at the cap
+    assert.equal(cpm(5, 3), 50);    // below the cap the inner speed passes through…
+    assert.equal(cpm(20, 4), 150);  // …and refills the bucket
+    assert.equal(policy.name, "capped-burst(per-user)");
+  });
+
+  it("rejects bad configs", () => {
+    assert.throws(() => createRatePolicy({ type: "constant", cpm: -1 }), /non-negative/);
+    assert.throws(() => createRatePolicy({ type: "schedule", hours: {} }), /at least one hour/);
+    assert.throws(() => createRatePolicy({ type: "schedule", hours: { "24": 5 } }), /0–23/);
+    assert.throws(
+      () => createRatePolicy({ type: "capped-burst", inner: DEFAULT_RATE, maxCpm: 100, burstCpm: 50, burstChars: 10 }),
+      /burstCpm ≥ maxCpm/,
+    );
+    assert.throws(() => createRatePolicy({ type: "warp" } as never), /Unknown rate policy "warp"/);
+  });
+});
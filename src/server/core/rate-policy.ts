@@ -0,0 +1,202 @@
+/**
+ * How fast a channel's monkey types. The generation loop asks its policy
+ * for a speed every step, and /status + /stats report the same snapshot,
+ * so the numbers shown are the numbers used.
+ */
+
+export interface RateInput {
+  /** Sockets actually connected to the channel. */
+  realUsers: number;
+  /** Made-up users (TEST_MODE jitter); never mixed into `realUsers`. */
+  syntheticUsers: number;
+  now: Date;
+}
+
+export interface RateSnapshot {
+  policy: string;
+  realUsers: number;
+  /** Synthetic users the policy counted (input jitter + any baseline). */
+  syntheticUsers: number;
+  /** realUsers + syntheticUsers */
+  users: number;
+  charsPerMinute: number;
+}
+
+export interface RatePolicy {
+  readonly name: string;
+  evaluate(input: RateInput): RateSnapshot;
+}
+
+/** Config shape, as found in the channels file or MONKEY_RATE. */
+export type RateSpec =
+  | { type: "constant"; cpm: number }
+  | { type: "per-user"; cpmPerUser: number; baselineUsers?: number }
+  | { type: "schedule"; hours: Record<string, number> }
+  | { type: "capped-burst"; inner: RateSpec; maxCpm: number; burstCpm: number; burstChars: number };
+
+/** What the server always did: 5 cpm for each user, plus 250 pretend users. */
+export const DEFAULT_RATE: RateSpec = { type: "per-user", cpmPerUser: 5, baselineUsers: 250 };
+
+/* ────────────────────────────────────────────────────────────── */
+
+/** Same speed no matter who is watching. */
+export class ConstantRate implements RatePolicy {
+  readonly name = "constant";
+  private readonly cpm: number;
+
+  constructor(cpm: number) {
+    this.cpm = cpm;
+  }
+
+  evaluate({ realUsers, syntheticUsers }: RateInput): RateSnapshot {
+    return {
+      policy: this.name,
+      realUsers,
+      syntheticUsers,
+      users: realUsers + syntheticUsers,
+      charsPerMinute: this.cpm,
+    };
+  }
+}
+
+/** Every user (real, synthetic or baseline) adds `cpmPerUser`. */
+export class PerUserRate implements RatePolicy {
+  readonly name = "per-user";
+  private readonly cpmPerUser: number;
+  private readonly baselineUsers: number;
+
+  constructor(cpmPerUser: number, baselineUsers: number = 0) {
+    this.cpmPerUser = cpmPerUser;
+    this.baselineUsers = baselineUsers;
+  }
+
+  evaluate({ realUsers, syntheticUsers }: RateInput): RateSnapshot {
+    const synthetic = syntheticUsers + this.baselineUsers;
+    return {
+      policy: this.name,
+      realUsers,
+      syntheticUsers: synthetic,
+      users: realUsers + synthetic,
+      charsPerMinute: (realUsers + synthetic) * this.cpmPerUser,
+    };
+  }
+}
+
+/**
+ * Step function over the UTC hour of day: each entry sets the speed from
+ * that hour until the next entry (wrapping past midnight).
+ */
+export class ScheduleRate implements RatePolicy {
+  readonly name = "schedule";
+  /** 24 slots, one per UTC hour */
+  private readonly byHour: number[];
+
+  constructor(hours: Record<string, number>) {
+    const entries = Object.entries(hours)
+      .map(([h, cpm]) => [Number(h), cpm] as const)
+      .sort((a, b) => a[0] - b[0]);
+    if (entries.length === 0) throw new Error("Schedule rate needs at least one hour");
+    if (entries.some(([h]) => !Number.isInteger(h) || h < 0 || h > 23)) {
+      throw new Error("Schedule rate hours must be integers 0–23");
+    }
+
+    // Hours before the first entry inherit the last one (wrap-around)
+    let current = entries[entries.length - 1][1];
+    this.byHour = Array.from({ length: 24 }, (_, h) => {
+      const entry = entries.find(([eh]) => eh === h);
+      if (entry) current = entry[1];
+      return current;
+    });
+  }
+
+  evaluate({ realUsers, syntheticUsers, now }: RateInput): RateSnapshot {
+    return {
+      policy: this.name,
+      realUsers,
+      syntheticUsers,
+      users: realUsers + syntheticUsers,
+      charsPerMinute: this.byHour[now.getUTCHours()],
+    };
+  }
+}
+
+/**
+ * Caps another policy at `maxCpm`, but lets it run up to `burstCpm` while a
+ * token bucket of `burstChars` lasts. Time spent below the cap refills it.
+ */
+export class CappedBurstRate implements RatePolicy {
+  readonly name: string;
+  private readonly inner: RatePolicy;
+  private readonly maxCpm: number;
+  private readonly burstCpm: number;
+  private readonly burstChars: number;
+
+  private tokens: number;
+  private lastCpm = 0;
+  private lastTime?: number;
+
+  constructor(inner: RatePolicy, maxCpm: number, burstCpm: number, burstChars: number) {
+    if (burstCpm < maxCpm) throw new Error("Capped burst rate needs burstCpm ≥ maxCpm");
+    this.name = `capped-burst(${inner.name})`;
+    this.inner = inner;
+    this.maxCpm = maxCpm;
+    this.burstCpm = burstCpm;
+    this.burstChars = burstChars;
+    this.tokens = burstChars;
+  }
+
+  evaluate(input: RateInput): RateSnapshot {
+    const t = input.now.getTime();
+
+    // Settle the bucket for the time spent at the previously returned speed
+    if (this.lastTime !== undefined && t > this.lastTime) {
+      const minutes = (t - this.lastTime) / 60_000;
+      this.tokens += (this.maxCpm - this.lastCpm) * minutes;
+      this.tokens = Math.max(0, Math.min(this.burstChars, this.tokens));
+    }
+    this.lastTime = t;
+
+    const snapshot = this.inner.evaluate(input);
+    let cpm = snapshot.charsPerMinute;
+    if (cpm > this.maxCpm) {
+      cpm = this.tokens > 0 ? Math.min(cpm, this.burstCpm) : this.maxCpm;
+    }
+    this.lastCpm = cpm;
+
+    return { ...snapshot, policy: this.name, charsPerMinute: cpm };
+  }
+}
+
+/* ────────────────────────────────────────────────────────────── */
+
+function requireRate(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Rate policy field "${field}" must be a non-negative number`);
+  }
+  return value;
+}
+
+/** Build a policy from its config; throws on unknown types or bad numbers. */
+export function createRatePolicy(spec: RateSpec): RatePolicy {
+  switch (spec.type) {
+    case "constant":
+      return new ConstantRate(requireRate(spec.cpm, "cpm"));
+    case "per-user":
+      return new PerUserRate(
+        requireRate(spec.cpmPerUser, "cpmPerUser"),
+        requireRate(spec.baselineUsers ?? 0, "baselineUsers"),
+      );
+    case "schedule":
+      Object.entries(spec.hours ?? {}).forEach(([h, cpm]) => requireRate(cpm, `hours.${h}`));
+      return new ScheduleRate(spec.hours ?? {});
+    case "capped-burst":
+      return new CappedBurstRate(
+        createRatePolicy(spec.inner),
+        requireRate(spec.maxCpm, "maxCpm"),
+        requireRate(spec.burstCpm, "burstCpm"),
+        requireRate(spec.burstChars, "burstChars"),
+      );
+    default:
+      throw new Error(`Unknown rate policy "${(spec as { type: string }).type}"`);
+  }
+}
@@ -0,0 +1,233 @@
+import { EventEmitter } from "events";
+import { CHUNK_SIZE, type ChunkStore } from "../storage/chunk-store";
+import { WordDetector, type WordDetectorOptions, type WordHit } from "./word-detector";
+import { dictionaries } from "./dictionary";
+import { reindexLogger as logger } from "../utils/logger";
+
+/** Meta key holding the last re-index checkpoint. */
+export const REINDEX_META_KEY = "reindex";
+
+/** Persist a checkpoint at least this often (chars). */
+const CHECKPOINT_INTERVAL = 1_048_576;
+
+export type ReindexStatus = "pending" | "running" | "paused" | "completed" | "failed";
+
+/** Shape of the `meta/reindex` document — enough to resume a run. */
+export interface ReindexCheckpoint {
+  id: string;
+  start: number;
+  end: number;
+  /** Next index to scan; words ending in (start, position] are done. */
+  position: number;
+  status: ReindexStatus;
+  /** Words the detector found so far, stored or not. */
+  hitsFound: number;
+  /** Found words that weren't stored yet. */
+  hitsAdded: number;
+  /** Stored words the current dictionaries no longer produce. */
+  hitsRemoved: number;
+  /** Dictionaries the last scanned chunk was matched against. */
+  dictionaryVersion: number;
+  error?: string;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface ReindexProgress extends ReindexCheckpoint {
+  /** chars scanned per second during this run */
+  rate: number;
+  etaSec: number | null;
+}
+
+/**
+ * Applies one step of a job: swap the stored words ending in (from, to]
+ * for `fresh` and report how many were actually new or gone. Must be
+ * idempotent — a resumed job re-scans from its last checkpoint.
+ */
+export type ReindexSink = (from: number, to: number, fresh: WordHit[]) => Promise<{ added: number; removed: number }>;
+
+/**
+ * Re-detects the words ending in (start, end] with the current
+ * dictionaries, chunk by chunk, handing each chunk's hits to a sink.
+ * Runs in the background like IntegrityAudit: yields after every chunk,
+ * can be paused, and resumes from its `meta/reindex` checkpoint.
+ *
+ * Events: "progress" (ReindexProgress), "done" (ReindexProgress)
+ */
+export class ReindexJob extends EventEmitter {
+  private readonly store: ChunkStore;
+  private readonly detectorOptions: WordDetectorOptions;
+  private readonly sink: ReindexSink;
+  private state: ReindexCheckpoint;
+
+  private runStartedAt = 0;
+  private runStartPosition = 0;
+  private pauseRequested = false;
+  private running?: Promise<ReindexProgress>;
+
+  constructor(
+    store: ChunkStore,
+    detectorOptions: WordDetectorOptions,
+    range: { start: number; end: number },
+    sink: ReindexSink,
+  ) {
+    super();
+    if (range.start < 0 || range.end < range.start) {
+      throw new Error(`Invalid re-index range [${range.start}, ${range.end})`);
+    }
+    this.store = store;
+    this.detectorOptions = detectorOptions;
+    this.sink = sink;
+    const now = Date.now();
+    this.state = {
+      id: `reindex-${now.toString(36)}`,
+      start: range.start,
+      end: range.end,
+      position: range.start,
+      status: "pending",
+      hitsFound: 0,
+      hitsAdded: 0,
+      hitsRemoved: 0,
+      dictionaryVersion: dictionaries.current.version,
+      startedAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /** Rebuild a job from the last persisted checkpoint, if any. */
+  static async fromCheckpoint(
+    store: ChunkStore,
+    detectorOptions: WordDetectorOptions,
+    sink: ReindexSink,
+  ): Promise<ReindexJob | undefined> {
+    const checkpoint = await store.readMeta<ReindexCheckpoint>(REINDEX_META_KEY);
+    if (!checkpoint) return undefined;
+
+    const job = new ReindexJob(store, detectorOptions, checkpoint, sink);
+    job.state = { ...checkpoint };
+    return job;
+  }
+
+  get id(): string {
+    return this.state.id;
+  }
+
+  get finished(): boolean {
+    return ["completed", "failed"].includes(this.state.status);
+  }
+
+  /** Start (or resume) the run; resolves when it completes, fails or is paused. */
+  start(): Promise<ReindexProgress> {
+    if (this.running) return this.running;
+    if (this.finished) return Promise.resolve(this.progress());
+
+    this.pauseRequested = false;
+    this.running = this.run().finally(() => { this.running = undefined; });
+    return this.running;
+  }
+
+  /** Ask a running job to stop at the next chunk boundary and checkpoint. */
+  pause(): void {
+    this.pauseRequested = true;
+  }
+
+  progress(): ReindexProgress {
+    const elapsed = (Date.now() - this.runStartedAt) / 1000;
+    const done = this.state.position - this.runStartPosition;
+    const rate = this.state.status === "running" && elapsed > 0 ? done / elapsed : 0;
+    const remaining = this.state.end - this.state.position;
+    return {
+      ...this.state,
+      rate: Math.round(rate),
+      etaSec: rate > 0 ? Math.ceil(remaining / rate) : null,
+    };
+  }
+
+  /* ---------- internals ---------------------------------------- */
+
+  private async run(): Promise<ReindexProgress> {
+    this.state.status = "running";
+    this.runStartedAt = Date.now();
+    this.runStartPosition = this.state.position;
+
+    logger.info({
+      id: this.state.id,
+      start: this.state.start,
+      end: this.state.end,
+      position: this.state.position,
+    }, 'Re-index started');
+
+    try {
+      const detector = new WordDetector(this.detectorOptions);
+      let found: WordHit[] = [];
+      detector.on("word", (hit: WordHit) => found.push(hit));
+
+      // Bring the detector to the state it had at `position`; what this
+      // reports ends at or before `position` and was handled already
+      const contextStart = Math.max(0, this.state.position - detector.contextLength);
+      if (contextStart < this.state.position) {
+        detector.pushMany(await this.store.readSlice(contextStart, this.state.position - contextStart), contextStart);
+        found = [];
+      }
+      let lastCheckpoint = this.state.position;
+
+      while (this.state.position < this.state.end) {
+        if (this.pauseRequested) {
+          this.state.status = "paused";
+          break;
+        }
+
+        // Stay aligned to chunk boundaries so each read hits one chunk
+        const pos = this.state.position;
+        const len = Math.min(CHUNK_SIZE - (pos % CHUNK_SIZE), this.state.end - pos);
+        detector.pushMany(await this.store.readSlice(pos, len), pos);
+
+        const { added, removed } = await this.sink(pos, pos + len, found);
+        this.state.hitsFound += found.length;
+        this.state.hitsAdded += added;
+        this.state.hitsRemoved += removed;
+        this.state.dictionaryVersion = dictionaries.current.version;
+        this.state.position = pos + len;
+        found = [];
+        this.emit("progress", this.progress());
+
+        if (this.state.position - lastCheckpoint >= CHECKPOINT_INTERVAL) {
+          await this.checkpoint();
+          lastCheckpoint = this.state.position;
+        }
+
+        // Let the generation loop and HTTP handlers run
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      if (this.state.status === "running") this.state.status = "completed";
+    } catch (error) {
+      this.state.status = "failed";
+      this.state.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await this.checkpoint();
+
+    const result = this.progress();
+    const level = this.state.status === "failed" ? "error" : "info";
+    logger[level]({
+      id: result.id,
+      status: result.status,
+      position: result.position,
+      hitsFound: result.hitsFound,
+      hitsAdded: result.hitsAdded,
+      hitsRemoved: result.hitsRemoved,
+      error: result.error,
+      durationMs: Date.now() - this.runStartedAt,
+    }, 'Re-index stopped');
+
+    this.emit("done", result);
+    return result;
+  }
+
+  private async checkpoint(): Promise<void> {
+    this.state.updatedAt = Date.now();
+    await this.store.writeMeta(REINDEX_META_KEY, this.state);
+    logger.debug({ position: this.state.position, status: this.state.status }, 'Re-index checkpoint written');
+  }
+}
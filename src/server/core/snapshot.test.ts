@@ -0,0 +1,139 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { CHUNK_SIZE, GENERATOR_META_KEY } from "../storage/chunk-store";
+import { MemoryChunkStore } from "../storage/memory-chunk-store";
+import { MemoryPatternStore } from "../storage/memory-pattern-store";
+import { MemoryWordStatsStore } from "../storage/memory-word-stats-store";
+import { MemoryWordStore } from "../storage/memory-word-store";
+import type { WordStats } from "./leaderboards";
+import { MerkleTree, chunkHash } from "./merkle";
+import type { PatternHit } from "./patterns";
+import { NewerCursorError, restoreSnapshot, writeSnapshot, type SnapshotStores } from "./snapshot";
+import type { WordHit } from "./word-detector";
+
+const scratch: string[] = [];
+
+async function archivePath(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "snapshot-"));
+  scratch.push(dir);
+  return path.join(dir, "main.jsonl.gz");
+}
+
+after(async () => {
+  for (const dir of scratch) await fs.rm(dir, { recursive: true, force: true });
+});
+
+function text(length: number, offset = 0): string {
+  let out = "";
+  for (let i = 0; i < length; i++) out += String.fromCharCode(97 + ((i + offset) * 7) % 26);
+  return out;
+}
+
+function word(start: number, value: string): WordHit {
+  return { start, len: value.length, word: value, kind: "primary", dictionary: "english" };
+}
+
+const STREAM = text(2 * CHUNK_SIZE + 500);
+const WORDS = [word(3, "cat"), word(CHUNK_SIZE + 10, "house"), word(2 * CHUNK_SIZE + 400, "seat")];
+const PATTERNS: PatternHit[] = [{ plugin: "repeat", start: 50, len: 6, text: "aaaaaa" }];
+const STATS: WordStats[] = [
+  { word: "cat", len: 3, dictionary: "english", rarity: 4.2, count: 1, firstStart: 3, firstAt: 1 },
+];
+
+function emptyStores(): SnapshotStores {
+  return {
+    chunks: new MemoryChunkStore(),
+    words: new MemoryWordStore(),
+    patterns: new MemoryPatternStore(),
+    stats: new MemoryWordStatsStore(),
+  };
+}
+
+/** A channel holding `stream` with the fixture's words, patterns and stats. */
+async function channel(stream = STREAM, words = WORDS): Promise<SnapshotStores> {
+  const stores = emptyStores();
+  stores.chunks.setCursorState(() => ({ position: stream.length }));
+  await stores.chunks.appendMany(stream);
+  await stores.chunks.writeMeta(GENERATOR_META_KEY, { seed: 7 });
+  await stores.words.replaceWords([], words);
+  await stores.patterns.replaceHits([], PATTERNS);
+  await stores.stats.replaceAll(STATS);
+  return stores;
+}
+
+function merkleRoot(stream: string): string {
+  const tree = new MerkleTree();
+  for (let at = 0; at + CHUNK_SIZE <= stream.length; at += CHUNK_SIZE) tree.append(chunkHash(stream.slice(at, at + CHUNK_SIZE)));
+  return tree.root().toString("hex");
+}
+
+describe("snapshots", () => {
+  it("restore an empty channel to exactly what was archived", async () => {
+    const file = await archivePath();
+    const summary = await writeSnapshot(await channel(), file);
+    assert.deepEqual({ ...summary, createdAt: 0 }, {
+      createdAt: 0, cursor: STREAM.length, chunks: 3, words: 3, patterns: 1, stats: 1, merkleRoot: merkleRoot(STREAM),
+    });
+
+    const target = emptyStores();
+    const report = await restoreSnapshot(file, target);
+    assert.equal(report.written, STREAM.length);
+    assert.deepEqual(report.words, { written: 3, deleted: 0 });
+
+    assert.equal(target.chunks.cursor, STREAM.length);
+    assert.equal(await target.chunks.readSlice(0, STREAM.length), STREAM);
+    assert.deepEqual(target.chunks.cursorState, { position: STREAM.length });
+    assert.deepEqual(await target.chunks.readMeta(GENERATOR_META_KEY), { seed: 7 });
+    assert.deepEqual(await target.words.loadWords(), WORDS);
+    assert.deepEqual(await target.patterns.loadHits(), PATTERNS);
+    assert.deepEqual(await target.stats.loadAll(), STATS);
+    assert.equal(await target.words.loadPosition(), STREAM.length);
+    assert.equal(await target.patterns.loadPosition(), STREAM.length);
+  });
+
+  it("roll a newer channel back only when forced, keeping the chunks both hold", async () => {
+    const file = await archivePath();
+    await writeSnapshot(await channel(), file);
+
+    // The target went on typing, and a later word was found past the snapshot
+    const ahead = STREAM + text(CHUNK_SIZE, 3);
+    const target = await channel(ahead, [...WORDS, word(ahead.length - 10, "monkey")]);
+    await assert.rejects(restoreSnapshot(file, target), NewerCursorError);
+    assert.equal(target.chunks.cursor, ahead.length);
+
+    const report = await restoreSnapshot(file, target, { force: true });
+    // Finished chunks both hold are kept; the snapshot's partial one is rewritten
+    assert.equal(report.kept, 2 * CHUNK_SIZE);
+    assert.equal(report.written, STREAM.length - 2 * CHUNK_SIZE);
+    assert.deepEqual(report.words, { written: 0, deleted: 1 });
+    assert.equal(target.chunks.cursor, STREAM.length);
+    assert.deepEqual(await target.words.loadWords(), WORDS);
+  });
+
+  it("check the archive before touching the channel", async () => {
+    const file = await archivePath();
+    await writeSnapshot(await channel(), file);
+    const lines = gunzipSync(await fs.readFile(file)).toString("utf8").trimEnd().split("\n");
+    await fs.writeFile(file, gzipSync(lines.slice(0, -1).join("\n") + "\n"));
+
+    const target = emptyStores();
+    await assert.rejects(restoreSnapshot(file, target), /incomplete/);
+    assert.equal(target.chunks.cursor, 0);
+  });
+
+  it("write nothing on a dry run", async () => {
+    const file = await archivePath();
+    await writeSnapshot(await channel(), file);
+
+    const target = emptyStores();
+    const report = await restoreSnapshot(file, target, { dryRun: true });
+    assert.equal(report.written, STREAM.length);
+    assert.equal(target.chunks.cursor, 0);
+    assert.deepEqual(await target.words.loadWords(), []);
+    assert.deepEqual(await target.stats.loadAll(), []);
+  });
+});
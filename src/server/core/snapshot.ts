@@ -0,0 +1,478 @@
+import { createReadStream } from "node:fs";
+import { pipeline } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import { CHUNK_SIZE, type ChunkStore } from "../storage/chunk-store";
+import { replaceDurableStream } from "../storage/durable-file";
+import { patternKey, type PatternStore } from "../storage/pattern-store";
+import { sameWord, wordKey, type WordStore } from "../storage/word-store";
+import type { WordStatsStore } from "../storage/word-stats-store";
+import { CATCH_UP_META_KEY } from "./catch-up";
+import { ChunkLedger } from "./chunk-ledger";
+import { AUDIT_META_KEY, type AuditCheckpoint } from "./integrity-audit";
+import type { WordStats } from "./leaderboards";
+import { MerkleTree, chunkHash } from "./merkle";
+import type { PatternHit } from "./patterns";
+import { REINDEX_META_KEY, type ReindexCheckpoint } from "./reindex-job";
+import { STREAM_META_KEYS } from "./store-migration";
+import type { WordHit } from "./word-detector";
+import { snapshotLogger as logger } from "../utils/logger";
+
+/* ────────────────────────────────────────────────────────────── */
+/*  Snapshot archive: gzip'd JSON lines, in this order            */
+/*    { header }        format, version, cursor, detector state,  */
+/*                      stream meta (generator, phrases, …)       */
+/*    { chunk, text }   every chunk from 0, the last one partial  */
+/*    { word }          ordered by start                          */
+/*    { pattern }                                                 */
+/*    { stats }         leaderboard stats, one per word           */
+/*    { end }           record counts and the Merkle root of the  */
+/*                      finished chunks (same as the ledger's)    */
+/*  A missing `end` means the archive was cut short.              */
+/* ────────────────────────────────────────────────────────────── */
+
+export const SNAPSHOT_FORMAT = "typewriting-monkey-snapshot";
+export const SNAPSHOT_VERSION = 1;
+
+/** Words are read and compared this many chars of stream at a time. */
+const WORD_WINDOW = 1_048_576;
+
+/** Everything of one channel a snapshot covers. */
+export interface SnapshotStores {
+  chunks: ChunkStore;
+  words: WordStore;
+  patterns: PatternStore;
+  stats: WordStatsStore;
+}
+
+interface SnapshotHeader {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: number;
+  cursor: number;
+  /** Detector snapshot committed with the cursor. */
+  cursorState?: object;
+  /** Stream meta documents by key. */
+  meta: Record<string, object>;
+}
+
+interface SnapshotTrailer {
+  chunks: number;
+  words: number;
+  patterns: number;
+  stats: number;
+  merkleRoot: string;
+}
+
+type SnapshotRecord =
+  | { header: SnapshotHeader }
+  | { chunk: number; text: string }
+  | { word: WordHit }
+  | { pattern: PatternHit }
+  | { stats: WordStats }
+  | { end: SnapshotTrailer };
+
+/** What an archive holds, as written or as found by `restoreSnapshot`. */
+export interface SnapshotSummary extends SnapshotTrailer {
+  createdAt: number;
+  cursor: number;
+}
+
+export interface RestoreOptions {
+  /** Overwrite a target whose cursor is ahead of the snapshot's. */
+  force?: boolean;
+  /** Check the archive and report what would change, write nothing. */
+  dryRun?: boolean;
+}
+
+export interface RestoreReport {
+  dryRun: boolean;
+  snapshot: SnapshotSummary;
+  /** Target cursor before the restore. */
+  previousCursor: number;
+  /** Leading chars the target already held identically. */
+  kept: number;
+  /** Chars written from the archive. */
+  written: number;
+  /** Ledger chunks dropped because their text was replaced. */
+  ledgerDropped: number;
+  words: { written: number; deleted: number };
+  patterns: { written: number; deleted: number };
+  stats: number;
+  meta: string[];
+  /** Audit / re-index checkpoints cut back to the snapshot's cursor. */
+  checkpoints: string[];
+}
+
+export class NewerCursorError extends Error {
+  readonly cursor: number;
+  readonly snapshotCursor: number;
+
+  constructor(cursor: number, snapshotCursor: number) {
+    super(`The target's cursor ${cursor} is ahead of the snapshot's ${snapshotCursor}; `
+      + `restore with --force to roll it back`);
+    this.name = "NewerCursorError";
+    this.cursor = cursor;
+    this.snapshotCursor = snapshotCursor;
+  }
+}
+
+/**
+ * Write a point-in-time archive of a channel to `file` (replaced
+ * atomically): everything up to the durable cursor, its detector state
+ * and stream meta, the words and pattern hits found in that text, and
+ * the leaderboard stats.
+ */
+export async function writeSnapshot(stores: SnapshotStores, file: string): Promise<SnapshotSummary> {
+  const startTime = Date.now();
+  const cursor = stores.chunks.cursor;
+  const tree = new MerkleTree();
+  const summary: SnapshotSummary = {
+    createdAt: Date.now(),
+    cursor,
+    chunks: 0,
+    words: 0,
+    patterns: 0,
+    stats: 0,
+    merkleRoot: "",
+  };
+
+  const meta: Record<string, object> = {};
+  for (const key of STREAM_META_KEYS) {
+    const value = await stores.chunks.readMeta(key);
+    if (value) meta[key] = value;
+  }
+
+  async function* records(): AsyncGenerator<SnapshotRecord> {
+    yield {
+      header: {
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        createdAt: summary.createdAt,
+        cursor,
+        cursorState: stores.chunks.cursorState,
+        meta,
+      },
+    };
+
+    for (let id = 0; id * CHUNK_SIZE < cursor; id++) {
+      const text = (await stores.chunks.readChunk(id)).slice(0, cursor - id * CHUNK_SIZE);
+      if (text.length !== Math.min(CHUNK_SIZE, cursor - id * CHUNK_SIZE)) {
+        throw new Error(`Chunk ${id} holds ${text.length} chars; repair it before taking a snapshot`);
+      }
+      if (text.length === CHUNK_SIZE) tree.append(chunkHash(text));
+      summary.chunks++;
+      yield { chunk: id, text };
+    }
+
+    // Only what was found in the text up to the cursor
+    for (let from = 0; from < cursor; from += WORD_WINDOW) {
+      for (const word of await stores.words.loadRange(from, Math.min(from + WORD_WINDOW, cursor))) {
+        if (word.start + word.len > cursor) continue;
+        summary.words++;
+        yield { word };
+      }
+    }
+    for (const pattern of await stores.patterns.loadHits()) {
+      if (pattern.start + pattern.len > cursor) continue;
+      summary.patterns++;
+      yield { pattern };
+    }
+    for (const stats of await stores.stats.loadAll()) {
+      summary.stats++;
+      yield { stats };
+    }
+
+    summary.merkleRoot = tree.root().toString("hex");
+    const { chunks, words, patterns, stats, merkleRoot } = summary;
+    yield { end: { chunks, words, patterns, stats, merkleRoot } };
+  }
+
+  async function* lines(): AsyncGenerator<string> {
+    for await (const record of records()) yield JSON.stringify(record) + "\n";
+  }
+
+  await replaceDurableStream(file, lines(), createGzip());
+  logger.info({ file, ...summary, durationMs: Date.now() - startTime }, 'Snapshot written');
+  return summary;
+}
+
+/**
+ * Make a channel's stores hold exactly what the archive at `file` does.
+ * The archive is checked end to end before anything is written. Chunks
+ * the target already holds identically are kept, so rolling back to a
+ * recent snapshot only rewrites the tail; the target is rewound to where
+ * it first differs, and the ledger loses the chunks that were replaced.
+ * The word and pattern positions and any audit or re-index checkpoint
+ * are moved back to the snapshot's cursor. A target whose cursor is
+ * ahead of the snapshot's is refused unless `force` is set. Nothing else
+ * may write to the stores meanwhile.
+ */
+export async function restoreSnapshot(
+  file: string,
+  stores: SnapshotStores,
+  options: RestoreOptions = {},
+): Promise<RestoreReport> {
+  const startTime = Date.now();
+  const dryRun = options.dryRun ?? false;
+  const { header, summary, hashes } = await checkSnapshot(file);
+  const target = stores.chunks;
+  const previousCursor = target.cursor;
+
+  if (previousCursor > header.cursor && !options.force) {
+    throw new NewerCursorError(previousCursor, header.cursor);
+  }
+
+  const report: RestoreReport = {
+    dryRun,
+    snapshot: summary,
+    previousCursor,
+    kept: 0,
+    written: 0,
+    ledgerDropped: 0,
+    words: { written: 0, deleted: 0 },
+    patterns: { written: 0, deleted: 0 },
+    stats: summary.stats,
+    meta: [],
+    checkpoints: [],
+  };
+
+  // Every cursor write from here on carries the snapshot's detector state
+  if (!dryRun) target.setCursorState(header.cursorState ? () => header.cursorState! : undefined);
+
+  /** Still walking the prefix the target already holds. */
+  let matching = true;
+  const words = new WordRestorer(stores.words, Math.max(previousCursor, header.cursor), dryRun, report);
+  const patterns: PatternHit[] = [];
+  const stats: WordStats[] = [];
+
+  await readSnapshot(file, async record => {
+    if ("chunk" in record) {
+      const start = record.chunk * CHUNK_SIZE;
+      let text = record.text;
+
+      if (matching && start < previousCursor) {
+        const held = (await target.readChunk(record.chunk)).slice(0, previousCursor - start);
+        if (held === text) {
+          report.kept += text.length;
+          return;
+        }
+        if (start + held.length === previousCursor && text.startsWith(held)) {
+          report.kept += held.length;
+          text = text.slice(held.length);
+        } else {
+          if (!dryRun) await target.rewind(start);
+          matching = false;
+        }
+      } else {
+        matching = false;
+      }
+
+      if (!dryRun) await target.appendMany(text);
+      report.written += text.length;
+    } else if ("word" in record) {
+      await words.add(record.word);
+    } else if ("pattern" in record) {
+      patterns.push(record.pattern);
+    } else if ("stats" in record) {
+      stats.push(record.stats);
+    }
+  });
+  await words.finish();
+
+  if (!dryRun) {
+    // Leftovers past the snapshot's cursor (forced roll-back) go here
+    await target.rewind(header.cursor);
+    report.ledgerDropped = await truncateLedger(target, hashes);
+  }
+
+  const held = new Map((await stores.patterns.loadHits()).map(hit => [patternKey(hit), hit]));
+  const wanted = new Map(patterns.map(hit => [patternKey(hit), hit]));
+  const fresh = patterns.filter(hit => held.get(patternKey(hit))?.text !== hit.text);
+  const stale = [...held.values()].filter(hit => wanted.get(patternKey(hit))?.text !== hit.text);
+  report.patterns = { written: fresh.length, deleted: stale.length };
+
+  if (!dryRun) {
+    await stores.patterns.replaceHits(stale, fresh);
+    await stores.patterns.flush();
+    // The archive doesn't say how far the stats count, so the channel trusts them as they are
+    await stores.stats.replaceAll(stats);
+    // Positions past a rolled-back cursor would keep the channel from re-scanning there
+    await stores.words.resetPosition(header.cursor);
+    await stores.patterns.resetPosition(header.cursor);
+  }
+
+  for (const key of STREAM_META_KEYS) {
+    // Without one, a catch-up target from the rolled-back run would retype it
+    const value = header.meta[key] ?? (key === CATCH_UP_META_KEY ? { targetCursor: header.cursor } : undefined);
+    if (!value) continue;
+    if (!dryRun) await target.writeMeta(key, value);
+    report.meta.push(key);
+  }
+
+  report.checkpoints = await clampCheckpoints(target, header.cursor, dryRun);
+
+  logger.info({ file, ...report, durationMs: Date.now() - startTime }, dryRun ? 'Restore checked' : 'Snapshot restored');
+  return report;
+}
+
+/**
+ * Cut interrupted audit and re-index runs back to `cursor`, so resuming
+ * one on boot doesn't walk past the restored stream. Returns their keys.
+ */
+async function clampCheckpoints(target: ChunkStore, cursor: number, dryRun: boolean): Promise<string[]> {
+  const clamped: string[] = [];
+  for (const key of [AUDIT_META_KEY, REINDEX_META_KEY]) {
+    const checkpoint = await target.readMeta<AuditCheckpoint | ReindexCheckpoint>(key);
+    if (!checkpoint || checkpoint.end <= cursor) continue;
+
+    const start = Math.min(checkpoint.start, cursor);
+    const position = Math.min(Math.max(checkpoint.position, start), cursor);
+    if (!dryRun) await target.writeMeta(key, { ...checkpoint, start, end: cursor, position, updatedAt: Date.now() });
+    clamped.push(key);
+  }
+  return clamped;
+}
+
+/** Feed every record of the archive to `onRecord`, in order. */
+async function readSnapshot(file: string, onRecord: (record: SnapshotRecord) => Promise<void>): Promise<void> {
+  const gunzip = createGunzip();
+  gunzip.setEncoding("utf8");
+
+  await pipeline(createReadStream(file), gunzip, async (source: AsyncIterable<string>) => {
+    let rest = "";
+    for await (const data of source) {
+      const lines = (rest + data).split("\n");
+      rest = lines.pop()!;
+      for (const line of lines) await onRecord(JSON.parse(line) as SnapshotRecord);
+    }
+    if (rest) throw new Error(`Snapshot ${file} ends in the middle of a record`);
+  });
+}
+
+/**
+ * Read the whole archive once and check it is complete and consistent:
+ * a known format, every chunk in order and full up to the cursor, words
+ * in order, and counts and root matching the `end` record.
+ */
+async function checkSnapshot(
+  file: string,
+): Promise<{ header: SnapshotHeader; summary: SnapshotSummary; hashes: string[] }> {
+  let header: SnapshotHeader | undefined;
+  let trailer: SnapshotTrailer | undefined;
+  const counts = { chunks: 0, words: 0, patterns: 0, stats: 0 };
+  const tree = new MerkleTree();
+  const hashes: string[] = [];
+  let length = 0;
+  let lastStart = 0;
+
+  await readSnapshot(file, async record => {
+    if (trailer) throw new Error("Records after the end of the snapshot");
+
+    if ("header" in record) {
+      if (header) throw new Error("Snapshot has two headers");
+      if (record.header.format !== SNAPSHOT_FORMAT || record.header.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Not a version ${SNAPSHOT_VERSION} snapshot (${record.header.format} ${record.header.version})`);
+      }
+      header = record.header;
+      return;
+    }
+    if (!header) throw new Error("Snapshot does not start with a header");
+
+    if ("chunk" in record) {
+      if (record.chunk !== counts.chunks || length % CHUNK_SIZE !== 0) {
+        throw new Error(`Chunk ${record.chunk} out of order or after a partial chunk`);
+      }
+      counts.chunks++;
+      length += record.text.length;
+      if (record.text.length === CHUNK_SIZE) {
+        const hash = chunkHash(record.text);
+        tree.append(hash);
+        hashes.push(hash.toString("hex"));
+      }
+    } else if ("word" in record) {
+      if (record.word.start < lastStart || record.word.start + record.word.len > header.cursor) {
+        throw new Error(`Word ${wordKey(record.word)} out of order or past the cursor`);
+      }
+      lastStart = record.word.start;
+      counts.words++;
+    } else if ("pattern" in record) {
+      counts.patterns++;
+    } else if ("stats" in record) {
+      counts.stats++;
+    } else if ("end" in record) {
+      trailer = record.end;
+    }
+  });
+
+  if (!header || !trailer) throw new Error(`Snapshot ${file} is incomplete (no end record)`);
+  if (length !== header.cursor) {
+    throw new Error(`Snapshot chunks hold ${length} chars, its cursor says ${header.cursor}`);
+  }
+  const merkleRoot = tree.root().toString("hex");
+  const summary: SnapshotSummary = { createdAt: header.createdAt, cursor: header.cursor, ...counts, merkleRoot };
+  for (const key of ["chunks", "words", "patterns", "stats", "merkleRoot"] as const) {
+    if (summary[key] !== trailer[key]) {
+      throw new Error(`Snapshot ${key} ${summary[key]} does not match its end record (${trailer[key]})`);
+    }
+  }
+  return { header, summary, hashes };
+}
+
+/** Drop ledger hashes from the first chunk the restore changed. */
+async function truncateLedger(store: ChunkStore, hashes: string[]): Promise<number> {
+  const ledger = await ChunkLedger.load(store);
+  const size = ledger.size;
+  let keep = 0;
+  while (keep < size && keep < hashes.length && ledger.hash(keep) === hashes[keep]) keep++;
+
+  await ledger.truncate(keep);
+  await ledger.close();
+  return size - keep;
+}
+
+/**
+ * Brings the word store in line with the archive's words, which arrive
+ * ordered by start: one window at a time, snapshot words the target
+ * lacks are written and target words the snapshot lacks are deleted,
+ * up to `end` (the further of the old and restored cursors).
+ */
+class WordRestorer {
+  private readonly store: WordStore;
+  private readonly end: number;
+  private readonly dryRun: boolean;
+  private readonly report: RestoreReport;
+  private from = 0;
+  private pending: WordHit[] = [];
+
+  constructor(store: WordStore, end: number, dryRun: boolean, report: RestoreReport) {
+    this.store = store;
+    this.end = end;
+    this.dryRun = dryRun;
+    this.report = report;
+  }
+
+  async add(word: WordHit): Promise<void> {
+    while (word.start >= this.from + WORD_WINDOW) await this.window();
+    this.pending.push(word);
+  }
+
+  async finish(): Promise<void> {
+    while (this.from < this.end) await this.window();
+    if (!this.dryRun) await this.store.flush();
+  }
+
+  private async window(): Promise<void> {
+    const held = await this.store.loadRange(this.from, this.from + WORD_WINDOW);
+    const heldByKey = new Map(held.map(hit => [wordKey(hit), hit]));
+    const wanted = new Map(this.pending.map(hit => [wordKey(hit), hit]));
+
+    const fresh = this.pending.filter(hit => !sameWord(hit, heldByKey.get(wordKey(hit))));
+    const stale = held.filter(hit => !sameWord(hit, wanted.get(wordKey(hit))));
+    if (!this.dryRun && fresh.length + stale.length > 0) await this.store.replaceWords(stale, fresh);
+
+    this.report.words.written += fresh.length;
+    this.report.words.deleted += stale.length;
+    this.from += WORD_WINDOW;
+    this.pending = [];
+  }
+}
@@ -1,53 +1,78 @@
 import type { ChunkStore } from "../storage/chunk-store";
 import { WordDetector } from "./word-detector";
-import type { WordHit } from "./word-detector";
+import { PatternEngine, type PatternHit, type PatternSpec } from "./patterns";
+import type { WordHit, WordDetectorOptions } from "./word-detector";
 
 export class StartupScanner {
     private store: ChunkStore;
+    private detectorOptions: WordDetectorOptions;
 
-    constructor(store: ChunkStore) {
+    /** `detectorOptions` must match the live detector's so hits line up. */
+    constructor(store: ChunkStore, detectorOptions: WordDetectorOptions = {}) {
         this.store = store;
+        this.detectorOptions = detectorOptions;
     }
 
-    async scanMissingWords(lastPersistedPosition: number): Promise<WordHit[]> {
-        const currentCursor = this.store.cursor;
-        
-        if (lastPersistedPosition >= currentCursor) {
-            return [];
-        }
+    /**
+     * Re-detect every word that overlaps [start, end), e.g. after chunks in
+     * that range were rebuilt or the dictionaries changed. Feeds one
+     * longest-word of context on both sides so the results match what the
+     * live detector produced.
+     */
+    async scanRange(start: number, end: number): Promise<WordHit[]> {
+        const scanner = new WordDetector(this.detectorOptions);
+        const from = Math.max(0, start - scanner.contextLength);
+        const to = Math.min(this.store.cursor, end + scanner.contextLength);
+        if (from >= to) return [];
 
-        console.log(`Scanning for missing words from ${lastPersistedPosition} to ${currentCursor}`);
-
-        const scanner = new WordDetector();
         const foundWords: WordHit[] = [];
 
         scanner.on("word", (hit: WordHit) => {
-            // No position adjustment needed! The detector already has correct positions
-            if (hit.start >= lastPersistedPosition) {
+            if (hit.start < end && hit.start + hit.len > start) {
                 foundWords.push(hit);
             }
         });
 
-        // Start a bit earlier for context, but track absolute position
-        const startPosition = Math.max(0, lastPersistedPosition - 20);
-        let absolutePosition = startPosition;
-
         const SCAN_CHUNK_SIZE = 8192;
-        let readPosition = startPosition;
-
-        while (readPosition < currentCursor) {
-            const len = Math.min(SCAN_CHUNK_SIZE, currentCursor - readPosition);
+        for (let readPosition = from; readPosition < to; readPosition += SCAN_CHUNK_SIZE) {
+            const len = Math.min(SCAN_CHUNK_SIZE, to - readPosition);
             const text = await this.store.readSlice(readPosition, len);
-            
-            // Feed each character with its absolute position
-            for (const ch of text) {
-                scanner.push(ch, absolutePosition);
-                absolutePosition++;
+            for (let i = 0; i < text.length; i++) {
+                scanner.push(text[i], readPosition + i);
             }
-            
-            readPosition += len;
         }
 
         return foundWords;
     }
-} 
\ No newline at end of file
+
+    /**
+     * Replay pattern plugins over [from, cursor) and return every hit they
+     * report there. Plugins are primed with their longest pattern of
+     * context first, so runs straddling `from` come out whole.
+     */
+    async scanPatterns(specs: PatternSpec[], from: number): Promise<PatternHit[]> {
+        const currentCursor = this.store.cursor;
+        if (specs.length === 0 || from >= currentCursor) {
+            return [];
+        }
+
+        const engine = new PatternEngine(specs);
+        const contextStart = Math.max(0, from - engine.maxLength);
+        if (contextStart < from) {
+            engine.pushMany(await this.store.readSlice(contextStart, from - contextStart), contextStart);
+        }
+
+        const foundHits: PatternHit[] = [];
+        engine.on("hit", (hit: PatternHit) => foundHits.push(hit));
+
+        const SCAN_CHUNK_SIZE = 8192;
+        for (let readPosition = from; readPosition < currentCursor; readPosition += SCAN_CHUNK_SIZE) {
+            const len = Math.min(SCAN_CHUNK_SIZE, currentCursor - readPosition);
+            engine.pushMany(await this.store.readSlice(readPosition, len), readPosition);
+            // Runs in the background on boot, so let live typing through
+            await new Promise(resolve => setImmediate(resolve));
+        }
+
+        return foundHits;
+    }
+}
\ No newline at end of file
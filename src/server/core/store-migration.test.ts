@@ -0,0 +1,124 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { CHUNK_SIZE, GENERATOR_META_KEY } from "../storage/chunk-store";
+import { FileChunkStore } from "../storage/file-chunk-store";
+import { FileWordStore } from "../storage/file-word-store";
+import { SqliteChunkStore } from "../storage/sqlite-chunk-store";
+import { SqliteWordStore } from "../storage/sqlite-word-store";
+import { MIGRATION_META_KEY, migrateStore, type MigrationEndpoint } from "./store-migration";
+import type { WordHit } from "./word-detector";
+
+const scratch: string[] = [];
+
+async function tempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "store-migration-"));
+  scratch.push(dir);
+  return dir;
+}
+
+after(async () => {
+  for (const dir of scratch) await fs.rm(dir, { recursive: true, force: true });
+});
+
+function text(length: number): string {
+  let out = "";
+  for (let i = 0; i < length; i++) out += String.fromCharCode(97 + (i * 7) % 26);
+  return out;
+}
+
+function hit(start: number, word: string): WordHit {
+  return { start, len: word.length, word, kind: "primary", dictionary: "en" };
+}
+
+const STREAM = text(2 * CHUNK_SIZE + 300);
+const WORDS = [hit(10, "cat"), hit(CHUNK_SIZE - 1, "dog"), hit(2 * CHUNK_SIZE + 200, "bird")];
+const POSITION = 2 * CHUNK_SIZE + 250;
+
+/**
+ * A file-backed channel with STREAM, WORDS and words detected up to
+ * POSITION, reopened as the migrate CLI would find it.
+ */
+async function fileSource(): Promise<MigrationEndpoint> {
+  const dir = await tempDir();
+  const chunks = await FileChunkStore.create(dir);
+  chunks.setCursorState(() => ({ position: chunks.cursor }));
+  await chunks.appendMany(STREAM);
+  await chunks.writeMeta(GENERATOR_META_KEY, { seed: 7 });
+
+  const words = new FileWordStore(dir);
+  await words.loadWords();
+  for (const word of WORDS) words.addWord(word);
+  words.markDetected(POSITION);
+  await close({ chunks, words });
+
+  return { chunks: await FileChunkStore.create(dir), words: new FileWordStore(dir) };
+}
+
+async function sqliteTarget(file: string): Promise<MigrationEndpoint> {
+  return { chunks: await SqliteChunkStore.create(file), words: new SqliteWordStore(file) };
+}
+
+async function close(endpoint: MigrationEndpoint): Promise<void> {
+  await endpoint.words.close();
+  await endpoint.chunks.close();
+}
+
+describe("migrateStore", () => {
+  it("copies text, meta, words and the words position", async () => {
+    const source = await fileSource();
+    const file = path.join(await tempDir(), "monkey.sqlite");
+    const target = await sqliteTarget(file);
+
+    const report = await migrateStore(source, target, { source: "file:test" });
+    assert.equal(report.verification?.ok, true);
+    assert.equal(report.chars, STREAM.length);
+    assert.equal(report.words, WORDS.length);
+    assert.deepEqual(report.meta, [GENERATOR_META_KEY]);
+    await close(target);
+
+    const reopened = await sqliteTarget(file);
+    assert.equal(reopened.chunks.cursor, STREAM.length);
+    assert.equal(await reopened.chunks.readSlice(0, STREAM.length), STREAM);
+    assert.deepEqual(reopened.chunks.cursorState, { position: STREAM.length });
+    assert.deepEqual(await reopened.chunks.readMeta(GENERATOR_META_KEY), { seed: 7 });
+    assert.deepEqual(await reopened.words.loadWords(), WORDS);
+    assert.equal(reopened.words.getLastPersistedPosition(), POSITION);
+    assert.ok((await reopened.chunks.readMeta<{ finishedAt?: number }>(MIGRATION_META_KEY))?.finishedAt);
+    await close(reopened);
+    await close(source);
+  });
+
+  it("resumes into its own copy and refuses anyone else's", async () => {
+    const source = await fileSource();
+    const file = path.join(await tempDir(), "monkey.sqlite");
+    const target = await sqliteTarget(file);
+    await target.chunks.writeMeta(MIGRATION_META_KEY, { source: "file:test", sourceCursor: STREAM.length, startedAt: 0 });
+    await target.chunks.appendMany(STREAM.slice(0, CHUNK_SIZE + 5));
+
+    const report = await migrateStore(source, target, { source: "file:test" });
+    assert.equal(report.resumedFrom, CHUNK_SIZE + 5);
+    assert.equal(report.chars, STREAM.length - CHUNK_SIZE - 5);
+    assert.equal(report.verification?.ok, true);
+
+    await assert.rejects(migrateStore(source, target, { source: "file:other" }), /copied from file:test/);
+    await close(target);
+    await close(source);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const source = await fileSource();
+    const target = await sqliteTarget(path.join(await tempDir(), "monkey.sqlite"));
+
+    const report = await migrateStore(source, target, { source: "file:test", dryRun: true });
+    assert.equal(report.words, WORDS.length);
+    assert.equal(report.verification, undefined);
+    assert.equal(target.chunks.cursor, 0);
+    assert.deepEqual(await target.words.loadWords(), []);
+    assert.equal(await target.chunks.readMeta(GENERATOR_META_KEY), undefined);
+    await close(target);
+    await close(source);
+  });
+});
@@ -0,0 +1,276 @@
+import { CHUNK_SIZE, GENERATOR_META_KEY, type ChunkStore } from "../storage/chunk-store";
+import { sameWord, wordKey, type WordStore } from "../storage/word-store";
+import { CATCH_UP_META_KEY } from "./catch-up";
+import { PHRASES_META_KEY } from "./phrase-watcher";
+import { MerkleTree, chunkHash } from "./merkle";
+import type { WordHit } from "./word-detector";
+import { migrateLogger as logger } from "../utils/logger";
+
+/** Meta key in the TARGET store recording which source it is a copy of. */
+export const MIGRATION_META_KEY = "migration";
+
+/**
+ * Meta documents that belong to the stream itself. Job checkpoints
+ * (audit, reindex) stay behind, and the ledger is rebuilt by the
+ * target channel's catch-up.
+ */
+export const STREAM_META_KEYS = [GENERATOR_META_KEY, PHRASES_META_KEY, CATCH_UP_META_KEY];
+
+/** Words are compared and copied this many chars of stream at a time. */
+const WORD_WINDOW = 1_048_576;
+
+/** Chunk ids and word keys listed per verification failure kind. */
+const LIST_LIMIT = 100;
+
+/** One side of a migration: a channel's chunks and its words. */
+export interface MigrationEndpoint {
+  chunks: ChunkStore;
+  words: WordStore;
+}
+
+export interface MigrateOptions {
+  /**
+   * Names the source (backend and location). Saved in the target so a
+   * resumed run can't splice a different stream onto what was copied.
+   */
+  source: string;
+  /** Report what would be copied without writing anything. */
+  dryRun?: boolean;
+}
+
+interface MigrationCheckpoint {
+  source: string;
+  /** Source cursor when the copy (re)started. */
+  sourceCursor: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface MigrationVerification {
+  /** Source and target cursors and chunk counts agree. */
+  counts: boolean;
+  /** Chunks whose SHA-256 differs between source and target. */
+  chunkMismatches: number[];
+  /** Root over the source's finished chunks, as the ledger computes it. */
+  merkleRoot: string;
+  words: { source: number; target: number };
+  /** Source words the target lacks or holds differently. */
+  missingWords: string[];
+  /** Target words the source doesn't have. */
+  extraWords: string[];
+  ok: boolean;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  sourceCursor: number;
+  /** Target cursor before this run: more than 0 when resuming. */
+  resumedFrom: number;
+  /** Chars appended to the target (or that would be). */
+  chars: number;
+  /** Chunks the target gains, finished or the working one. */
+  chunks: number;
+  /** Words written to the target (or that would be). */
+  words: number;
+  /** Meta documents written to the target (or that would be). */
+  meta: string[];
+  /** Whether the source had a detector snapshot to carry over. */
+  cursorState: boolean;
+  /** Absent on a dry run. */
+  verification?: MigrationVerification;
+}
+
+/**
+ * Copies a channel from one store to another: the text chunk by chunk,
+ * the cursor (with the detector snapshot saved beside it), the stream's
+ * meta documents and every word, then checks both sides hold the same
+ * chunk hashes and words. The target's cursor is the checkpoint: text
+ * is only ever appended, so an interrupted run picks up where the target
+ * stopped and words already present are skipped. Targets that hold text
+ * from anywhere but this source are refused. Copies up to the source
+ * cursor seen at the start, so stop the server writing the source first.
+ */
+export async function migrateStore(
+  source: MigrationEndpoint,
+  target: MigrationEndpoint,
+  options: MigrateOptions,
+): Promise<MigrationReport> {
+  const dryRun = options.dryRun ?? false;
+  const sourceCursor = source.chunks.cursor;
+  const resumedFrom = target.chunks.cursor;
+
+  await checkTarget(source.chunks, target.chunks, options.source);
+
+  const meta = await copyMeta(source.chunks, target.chunks, dryRun);
+  const cursorState = source.chunks.cursorState;
+
+  const report: MigrationReport = {
+    dryRun,
+    sourceCursor,
+    resumedFrom,
+    chars: sourceCursor - resumedFrom,
+    chunks: Math.ceil(sourceCursor / CHUNK_SIZE) - Math.ceil(resumedFrom / CHUNK_SIZE),
+    words: 0,
+    meta,
+    cursorState: cursorState !== undefined,
+  };
+
+  if (dryRun) {
+    for (let from = 0; from < sourceCursor; from += WORD_WINDOW) {
+      report.words += (await diffWords(source.words, target.words, from, Math.min(from + WORD_WINDOW, sourceCursor))).missing.length;
+    }
+    return report;
+  }
+
+  const checkpoint: MigrationCheckpoint = { source: options.source, sourceCursor, startedAt: Date.now() };
+  await target.chunks.writeMeta(MIGRATION_META_KEY, checkpoint);
+
+  // Every cursor write carries the source's snapshot; the channel only
+  // restores it once the cursor has caught up with its position
+  if (cursorState) target.chunks.setCursorState(() => cursorState);
+
+  await copyChunks(source.chunks, target.chunks, sourceCursor);
+  report.words = await copyWords(source.words, target.words, sourceCursor);
+
+  report.verification = await verify(source, target, sourceCursor);
+  if (report.verification.ok) {
+    await target.chunks.writeMeta(MIGRATION_META_KEY, { ...checkpoint, finishedAt: Date.now() } satisfies MigrationCheckpoint);
+  }
+  return report;
+}
+
+/** Refuse targets that are ahead of the source or hold some other stream. */
+async function checkTarget(source: ChunkStore, target: ChunkStore, sourceName: string): Promise<void> {
+  if (target.cursor === 0) return;
+
+  const checkpoint = await target.readMeta<MigrationCheckpoint>(MIGRATION_META_KEY);
+  if (checkpoint?.source !== sourceName) {
+    throw new Error(
+      `Target already holds ${target.cursor} chars` +
+      (checkpoint ? ` copied from ${checkpoint.source}` : ' that were not copied from this source'),
+    );
+  }
+  if (target.cursor > source.cursor) {
+    throw new Error(`Target cursor ${target.cursor} is ahead of the source cursor ${source.cursor}`);
+  }
+
+  // Cheap sanity check of the chunk being resumed; verify() covers the rest
+  const start = Math.floor((target.cursor - 1) / CHUNK_SIZE) * CHUNK_SIZE;
+  const [expected, actual] = await Promise.all([
+    source.readSlice(start, target.cursor - start),
+    target.readSlice(start, target.cursor - start),
+  ]);
+  if (expected !== actual) {
+    throw new Error(`Target text at ${start} differs from the source; it is not a copy of this stream`);
+  }
+}
+
+async function copyMeta(source: ChunkStore, target: ChunkStore, dryRun: boolean): Promise<string[]> {
+  const written: string[] = [];
+  for (const key of STREAM_META_KEYS) {
+    const value = await source.readMeta(key);
+    if (!value) continue;
+    if (JSON.stringify(value) === JSON.stringify(await target.readMeta(key))) continue;
+
+    if (!dryRun) await target.writeMeta(key, value);
+    written.push(key);
+  }
+  return written;
+}
+
+async function copyChunks(source: ChunkStore, target: ChunkStore, end: number): Promise<void> {
+  const startTime = Date.now();
+  let lastReport = startTime;
+
+  while (target.cursor < end) {
+    const chunkId = Math.floor(target.cursor / CHUNK_SIZE);
+    const offset = target.cursor - chunkId * CHUNK_SIZE;
+    const text = (await source.readChunk(chunkId)).slice(offset, Math.min(CHUNK_SIZE, end - chunkId * CHUNK_SIZE));
+    if (!text) throw new Error(`Source chunk ${chunkId} ends before ${target.cursor}; repair it before migrating`);
+    await target.appendMany(text);
+
+    if (Date.now() - lastReport >= 5_000) {
+      lastReport = Date.now();
+      logger.info({ cursor: target.cursor, end }, 'Migration progress');
+    }
+  }
+  await target.flush();
+
+  logger.info({ cursor: target.cursor, durationMs: Date.now() - startTime }, 'Chunks copied');
+}
+
+async function copyWords(source: WordStore, target: WordStore, end: number): Promise<number> {
+  let copied = 0;
+  for (let from = 0; from < end; from += WORD_WINDOW) {
+    const { missing } = await diffWords(source, target, from, Math.min(from + WORD_WINDOW, end));
+    if (missing.length > 0) await target.replaceWords([], missing);
+    copied += missing.length;
+  }
+  // Without the source's position the target channel would re-index everything on boot
+  await target.resetPosition(Math.min(await source.loadPosition(), end));
+
+  logger.info({ copied }, 'Words copied');
+  return copied;
+}
+
+/** Words starting in [from, to) the target lacks (or holds differently) and has extra. */
+async function diffWords(
+  source: WordStore,
+  target: WordStore,
+  from: number,
+  to: number,
+): Promise<{ source: number; target: number; missing: WordHit[]; extra: WordHit[] }> {
+  const [expected, actual] = await Promise.all([source.loadRange(from, to), target.loadRange(from, to)]);
+  const held = new Map(actual.map(hit => [wordKey(hit), hit]));
+  const wanted = new Set(expected.map(wordKey));
+
+  return {
+    source: expected.length,
+    target: actual.length,
+    missing: expected.filter(hit => !sameWord(hit, held.get(wordKey(hit)))),
+    extra: actual.filter(hit => !wanted.has(wordKey(hit))),
+  };
+}
+
+/** Compare counts, every chunk's hash and every word on both sides. */
+async function verify(
+  source: MigrationEndpoint,
+  target: MigrationEndpoint,
+  end: number,
+): Promise<MigrationVerification> {
+  const tree = new MerkleTree();
+  const chunkMismatches: number[] = [];
+  let mismatchCount = 0;
+
+  for (let id = 0; id * CHUNK_SIZE < end; id++) {
+    const [chunk, actual] = await Promise.all([source.chunks.readChunk(id), target.chunks.readChunk(id)]);
+    // A source still being written has moved past `end`
+    const expected = chunk.slice(0, end - id * CHUNK_SIZE);
+    const hash = chunkHash(expected);
+    if (!hash.equals(chunkHash(actual)) && mismatchCount++ < LIST_LIMIT) chunkMismatches.push(id);
+    if (expected.length === CHUNK_SIZE) tree.append(hash);
+  }
+
+  const words = { source: 0, target: 0 };
+  const missingWords: string[] = [];
+  const extraWords: string[] = [];
+  for (let from = 0; from < end; from += WORD_WINDOW) {
+    const diff = await diffWords(source.words, target.words, from, Math.min(from + WORD_WINDOW, end));
+    words.source += diff.source;
+    words.target += diff.target;
+    missingWords.push(...diff.missing.slice(0, LIST_LIMIT - missingWords.length).map(wordKey));
+    extraWords.push(...diff.extra.slice(0, LIST_LIMIT - extraWords.length).map(wordKey));
+  }
+
+  const counts = target.chunks.cursor === end && target.chunks.chunkCount() === Math.ceil(end / CHUNK_SIZE);
+  return {
+    counts,
+    chunkMismatches,
+    merkleRoot: tree.root().toString("hex"),
+    words,
+    missingWords,
+    extraWords,
+    ok: counts && mismatchCount === 0 && words.source === words.target &&
+      missingWords.length === 0 && extraWords.length === 0,
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { dictionaries } from "./dictionary";
+import { createRng, DEFAULT_GENERATOR } from "./generator-config";
+import { WordDetector, type WordDetectorOptions, type WordHit } from "./word-detector";
+
+const [STREAM] = DEFAULT_GENERATOR.alphabet.sampleMany(createRng(DEFAULT_GENERATOR), 50_000);
+
+/** Feed `text` in runs of the given sizes (cycled) and collect every hit. */
+function detect(text: string, runs: number[], options: WordDetectorOptions = {}): WordHit[] {
+  const detector = new WordDetector(options);
+  const hits: WordHit[] = [];
+  detector.on("word", (hit: WordHit) => hits.push(hit));
+  for (let at = 0, i = 0; at < text.length; at += runs[i++ % runs.length]) {
+    detector.pushMany(text.slice(at, at + runs[i % runs.length]), at);
+  }
+  return hits;
+}
+
+/**
+ * The detector before the automaton: a sliding window checked against the
+ * word list from its longest suffix down, reporting the first match.
+ */
+function slidingWindow(text: string): { start: number; len: number; word: string }[] {
+  const lexicon = dictionaries.current;
+  const hits: { start: number; len: number; word: string }[] = [];
+  for (let end = 1; end <= text.length; end++) {
+    for (let n = Math.min(lexicon.maxLength, end); n >= 1; n--) {
+      const word = text.slice(end - n, end);
+      if (lexicon.automaton.has(word)) {
+        hits.push({ start: end - n, len: n, word });
+        break;
+      }
+    }
+  }
+  return hits;
+}
+
+describe("WordDetector", () => {
+  it("reports the same words as the sliding-window detector", () => {
+    const expected = slidingWindow(STREAM);
+    assert.ok(expected.length > 100, "fixture has words");
+
+    const hits = detect(STREAM, [1]);
+    assert.deepEqual(hits.map(({ start, len, word }) => ({ start, len, word })), expected);
+    assert.ok(hits.every(hit => hit.kind === "primary" && hit.dictionary === dictionaries.current.dictionaryOf(hit.word)));
+  });
+
+  it("finds the same words however the text is batched", () => {
+    assert.deepEqual(detect(STREAM, [8192, 1, 3, 700]), detect(STREAM, [1]));
+  });
+
+  it("tags the shorter words ending with the longest one as nested", () => {
+    const hits = detect("qhouseq", [1], { nested: true });
+    assert.deepEqual(hits.map(({ word, kind, start }) => ({ word, kind, start })), [
+      { word: "house", kind: "primary", start: 1 },
+      { word: "use", kind: "nested", start: 3 },
+    ]);
+  });
+
+  it("adds nested hits without changing the primary ones", () => {
+    const plain = detect(STREAM, [1]);
+    const hits = detect(STREAM, [1, 5000], { nested: true });
+    assert.deepEqual(hits.filter(hit => hit.kind === "primary"), plain);
+
+    // Every word ending at a position, longest (primary) first
+    const lexicon = dictionaries.current;
+    const ends = new Map<number, string[]>();
+    for (const hit of hits) ends.set(hit.start + hit.len, [...ends.get(hit.start + hit.len) ?? [], hit.word]);
+    for (const [end, words] of ends) {
+      const expected: string[] = [];
+      for (let n = Math.min(lexicon.maxLength, end); n >= 1; n--) {
+        if (lexicon.automaton.has(STREAM.slice(end - n, end))) expected.push(STREAM.slice(end - n, end));
+      }
+      assert.deepEqual(words, expected, `words ending at ${end}`);
+    }
+    assert.ok(hits.some(hit => hit.kind === "nested"), "fixture has nested hits");
+  });
+
+  it("picks up where a snapshot left off", () => {
+    const split = 25_000;
+    const first = new WordDetector();
+    first.pushMany(STREAM.slice(0, split), 0);
+
+    const resumed = new WordDetector();
+    resumed.restore(first.snapshot());
+    const hits: WordHit[] = [];
+    resumed.on("word", (hit: WordHit) => hits.push(hit));
+    resumed.pushMany(STREAM.slice(split), split);
+
+    assert.deepEqual(hits, detect(STREAM, [1]).filter(hit => hit.start + hit.len > split));
+  });
+});
@@ -1,48 +1,80 @@
-import fs from "fs";
-import path, { dirname } from "node:path";
-import { fileURLToPath } from "node:url";
 import { EventEmitter } from "events";
+import { AhoCorasick } from "./aho-corasick";
+import { dictionaries, type Lexicon } from "./dictionary";
+import type { Alphabet } from "./alphabet";
 import { detectorLogger as logger } from "../utils/logger";
 
-export interface WordHit { start: number; len: number; word: string; }
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
-const MIN_LEN = 3;
-const DICT_FILE = path.join(__dirname, "../../data/words.txt");
-
-logger.info({ dictFile: DICT_FILE }, 'Loading dictionary');
-const startLoad = Date.now();
+/**
+ * primary = the longest word ending at a position (what the detector has
+ * always reported); nested = a shorter word ending at the same position.
+ */
+export type WordHitKind = "primary" | "nested";
 
-const WORDS = new Set(
-  fs.readFileSync(DICT_FILE, "utf8")
-    .split(/\r?\n/)
-    .filter(w => w.length >= MIN_LEN)
-);
-const MAX_LEN = 12;
+export interface WordHit {
+  start: number;
+  len: number;
+  word: string;
+  kind: WordHitKind;
+  /** Name of the dictionary the word came from. */
+  dictionary: string;
+  /** −log10 of the chance of typing the word (see Alphabet.rarity). */
+  rarity?: number;
+}
 
-export const DICTIONARY_SIZE = WORDS.size;
+/** Serializable detector state (see Channel's cursor snapshots). */
+export interface WordDetectorState {
+  /** The last chars read — exactly enough to rebuild the automaton state. */
+  tail: string;
+}
 
-logger.info({
-  dictionarySize: DICTIONARY_SIZE,
-  minLength: MIN_LEN,
-  maxLength: MAX_LEN,
-  loadTime: Date.now() - startLoad,
-}, 'Dictionary loaded');
+export interface WordDetectorOptions {
+  /** Also report the shorter words ending at each position. */
+  nested?: boolean;
+  /** Score hits against this alphabet (sets `rarity`). */
+  alphabet?: Alphabet;
+}
 
 /** 
- * Emits a WordHit when a valid English word ends at the current character.
+ * Emits a WordHit when a dictionary word ends at the current character.
+ * When several do, the longest is the primary hit; the others are only
+ * reported (as nested hits, after the primary) with `nested: true`.
  * The caller is responsible for providing absolute positions.
+ *
+ * Always matches against the registry's current lexicon: after a reload the
+ * detector re-enters the new automaton by replaying the last few chars.
  */
 export class WordDetector extends EventEmitter {
-  private window = ""; // sliding buffer ≤ MAX_LEN
+  private readonly nested: boolean;
+  private readonly alphabet?: Alphabet;
+  private lexicon: Lexicon = dictionaries.current;
+  private state = AhoCorasick.ROOT; // automaton state after the last char
+  private tail = "";                // last maxLength-1 chars, for lexicon swaps
   private processedChars = 0;
   private detectedWords = 0;
   private lastLogTime = Date.now();
 
-  constructor() {
+  constructor(options: WordDetectorOptions = {}) {
     super();
-    logger.debug('WordDetector initialized');
+    this.nested = options.nested ?? false;
+    this.alphabet = options.alphabet;
+    logger.debug({ nested: this.nested }, 'WordDetector initialized');
+  }
+
+  /** Chars of history that fully determine the detector's state. */
+  get contextLength(): number {
+    return Math.max(0, dictionaries.current.maxLength - 1);
+  }
+
+  snapshot(): WordDetectorState {
+    return { tail: this.tail };
+  }
+
+  /** Resume from a snapshot, against whatever lexicon is current now. */
+  restore(state: WordDetectorState) {
+    this.lexicon = dictionaries.current;
+    this.tail = state.tail;
+    this.state = AhoCorasick.ROOT;
+    for (const ch of this.tail) this.state = this.lexicon.automaton.step(this.state, ch);
   }
 
   /**
@@ -51,41 +83,83 @@ export class WordDetector extends EventEmitter {
    * @param absolutePosition The absolute position of this character in the stream
    */
   push(ch: string, absolutePosition: number) { 
-    this.window += ch;
-    if (this.window.length > MAX_LEN) this.window = this.window.slice(1);
-    
-    this.processedChars++;
-    
-    logger.trace({
-      char: ch,
-      position: absolutePosition,
-      windowLength: this.window.length,
-    }, 'Processing character');
-
-    // scan longest → shortest to avoid nested duplicates
-    for (let n = Math.min(MAX_LEN, this.window.length); n >= MIN_LEN; n--) {
-      const w = this.window.slice(-n);
-      if (WORDS.has(w)) {
-        const hit: WordHit = { 
-          start: absolutePosition - n + 1, 
-          len: n, 
-          word: w 
-        };
-        
-        this.emit("word", hit);
-        this.detectedWords++;
-        
-        logger.info({
-          word: w,
-          start: hit.start,
-          len: n,
-          totalDetected: this.detectedWords,
-        }, 'Word detected');
-        
-        break;
+    this.pushMany(ch, absolutePosition);
+  }
+
+  /**
+   * Process a run of characters; `text[0]` sits at `startPosition`.
+   * Equivalent to calling push() for each char.
+   */
+  pushMany(text: string, startPosition: number) {
+    this.syncLexicon();
+    const automaton = this.lexicon.automaton;
+
+    for (let i = 0; i < text.length; i++) {
+      const absolutePosition = startPosition + i;
+      this.state = automaton.step(this.state, text[i]);
+      this.processedChars++;
+
+      logger.trace({
+        char: text[i],
+        position: absolutePosition,
+        state: this.state,
+      }, 'Processing character');
+
+      // longest word ending here; shorter suffixes are nested in it
+      const w = automaton.longestMatch(this.state);
+      if (w !== undefined) {
+        this.report(w, absolutePosition, "primary");
+        if (this.nested) {
+          for (const nested of automaton.matches(this.state).slice(1)) {
+            this.report(nested, absolutePosition, "nested");
+          }
+        }
       }
     }
+
+    const keep = this.contextLength;
+    this.tail = keep <= 0 ? "" : text.length >= keep ? text.slice(-keep) : (this.tail + text).slice(-keep);
+
+    this.logStatsIfNeeded();
+  }
+
+  /** Switch to a reloaded lexicon, carrying over the match state. */
+  private syncLexicon() {
+    const latest = dictionaries.current;
+    if (latest === this.lexicon) return;
+
+    this.lexicon = latest;
+    this.state = AhoCorasick.ROOT;
+    for (const ch of this.tail) this.state = latest.automaton.step(this.state, ch);
+
+    logger.info({ version: latest.version, dictionarySize: latest.size }, 'WordDetector switched to reloaded dictionaries');
+  }
+
+  private report(w: string, endPosition: number, kind: WordHitKind) {
+    const n = w.length;
+    const hit: WordHit = { 
+      start: endPosition - n + 1, 
+      len: n, 
+      word: w,
+      kind,
+      dictionary: this.lexicon.dictionaryOf(w),
+    };
+    if (this.alphabet) hit.rarity = this.alphabet.rarity(w);
     
+    this.emit("word", hit);
+    this.detectedWords++;
+    
+    logger.info({
+      word: w,
+      start: hit.start,
+      len: n,
+      kind,
+      dictionary: hit.dictionary,
+      totalDetected: this.detectedWords,
+    }, 'Word detected');
+  }
+
+  private logStatsIfNeeded() {
     // Log statistics every 60 seconds
     if (Date.now() - this.lastLogTime > 60_000) {
       logger.info({
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryChunkStore } from "../storage/memory-chunk-store";
+import { MemoryWordStore } from "../storage/memory-word-store";
+import { DEFAULT_GENERATOR } from "./generator-config";
+import { StartupScanner } from "./startup-scanner";
+import { reconcileWords } from "./word-reconcile";
+
+const TEXT = "qzxhouseqzxjqseatqzx";
+
+/** A stream whose words were stored as a channel with `nested` would have. */
+async function channel(nested: boolean) {
+  const store = new MemoryChunkStore();
+  await store.appendMany(TEXT);
+  const words = new MemoryWordStore();
+  const detected = await new StartupScanner(store, { nested, alphabet: DEFAULT_GENERATOR.alphabet }).scanRange(0, TEXT.length);
+  await words.replaceWords([], detected);
+  return { store, words, detected };
+}
+
+describe("reconcileWords", () => {
+  it("finds nothing to fix when re-detecting the way the words were stored", async () => {
+    const { store, words, detected } = await channel(true);
+    assert.ok(detected.some(hit => hit.kind === "nested"), "fixture has nested hits");
+
+    const report = await reconcileWords(store, words, DEFAULT_GENERATOR, { nested: true, fix: true });
+    assert.deepEqual(report.totals, { missing: 0, extra: 0, mismatched: 0 });
+    assert.deepEqual(await words.loadWords(), detected);
+  });
+
+  it("counts nested hits as extra when re-detecting without them", async () => {
+    const { store, words, detected } = await channel(true);
+
+    const report = await reconcileWords(store, words, DEFAULT_GENERATOR, { nested: false });
+    assert.deepEqual(report.extra, detected.filter(hit => hit.kind === "nested"));
+    assert.equal(report.totals.missing + report.totals.mismatched, 0);
+  });
+
+  it("fixes words whose kind or text changed", async () => {
+    const { store, words, detected } = await channel(false);
+    const [first, second] = detected;
+    const relabelled = { ...first, kind: "nested" as const };
+    const misspelt = { ...second, word: "xxx" };
+    await words.replaceWords([first, second], [relabelled, misspelt]);
+
+    const report = await reconcileWords(store, words, DEFAULT_GENERATOR, { fix: true });
+    assert.deepEqual(report.mismatched, [
+      { stored: relabelled, detected: first },
+      { stored: misspelt, detected: second },
+    ]);
+    assert.deepEqual(await words.loadWords(), detected);
+  });
+});
@@ -0,0 +1,173 @@
+import { CHUNK_SIZE, type ChunkStore } from "../storage/chunk-store";
+import { sameWord, type WordStore } from "../storage/word-store";
+import type { GeneratorConfig } from "./generator-config";
+import { dictionaries } from "./dictionary";
+import { StartupScanner } from "./startup-scanner";
+import type { WordHit } from "./word-detector";
+import { repairLogger as logger } from "../utils/logger";
+
+/** Stored words are loaded and compared this many chars at a time. */
+const RECONCILE_WINDOW = 1_048_576;
+
+export interface ReconcileOptions {
+  /** First index whose words are checked (default 0). */
+  start?: number;
+  /** One past the last index (default: current cursor). */
+  end?: number;
+  /** Re-detect nested words too (match the channel's `nestedWords`). */
+  nested?: boolean;
+  /** Write the fixes to the word store instead of only reporting. */
+  fix?: boolean;
+  /** Cap on the words listed per difference kind (default 100). */
+  limit?: number;
+}
+
+/** A stored word whose position and length match but whose text, kind or dictionary don't. */
+export interface WordMismatch {
+  stored: WordHit;
+  detected: WordHit;
+}
+
+/** Differences within one chunk, for spotting where the index has holes. */
+export interface ChunkDiff {
+  chunk: number;
+  missing: number;
+  extra: number;
+  mismatched: number;
+}
+
+interface Diff {
+  kind: "missing" | "extra" | "mismatched";
+  /** The detected word, or the stored one for `extra`. */
+  hit: WordHit;
+  /** The stored word, for `mismatched`. */
+  previous?: WordHit;
+}
+
+export interface ReconcileReport {
+  start: number;
+  end: number;
+  dictionaryVersion: number;
+  /** Words stored in the range. */
+  stored: number;
+  /** Words the current dictionaries find in the range. */
+  detected: number;
+  /** Detected but not stored. */
+  missing: WordHit[];
+  /** Stored but not detected (e.g. from a dictionary since removed). */
+  extra: WordHit[];
+  mismatched: WordMismatch[];
+  totals: { missing: number; extra: number; mismatched: number };
+  /** Lists above were cut at `limit`; `totals` and `chunks` are complete. */
+  truncated: boolean;
+  /** Chunks with at least one difference, in order. */
+  chunks: ChunkDiff[];
+  fixed: boolean;
+}
+
+/**
+ * Re-detects the words starting in [start, end) and diffs them against
+ * the `words` collection, window by window so neither side is held in
+ * memory whole. Words are matched on (start, len) — the document ID —
+ * and compared on their text, kind and dictionary. With `fix`, missing and mismatched words
+ * are written and extra ones deleted through `replaceWords`.
+ */
+export async function reconcileWords(
+  store: ChunkStore,
+  wordStore: WordStore,
+  generator: GeneratorConfig,
+  options: ReconcileOptions = {},
+): Promise<ReconcileReport> {
+  const start = options.start ?? 0;
+  const end = Math.min(options.end ?? store.cursor, store.cursor);
+  const limit = options.limit ?? 100;
+  const fix = options.fix ?? false;
+
+  const startTime = Date.now();
+  logger.info({ start, end, nested: options.nested, fix }, 'Word reconciliation started');
+
+  const scanner = new StartupScanner(store, { nested: options.nested, alphabet: generator.alphabet });
+  const key = (hit: WordHit) => `${hit.start}_${hit.len}`;
+  const report: ReconcileReport = {
+    start,
+    end,
+    dictionaryVersion: dictionaries.current.version,
+    stored: 0,
+    detected: 0,
+    missing: [],
+    extra: [],
+    mismatched: [],
+    totals: { missing: 0, extra: 0, mismatched: 0 },
+    truncated: false,
+    chunks: [],
+    fixed: fix,
+  };
+
+  const chunkDiff = (hit: WordHit) => {
+    const chunk = Math.floor(hit.start / CHUNK_SIZE);
+    let diff = report.chunks[report.chunks.length - 1];
+    if (diff?.chunk !== chunk) {
+      diff = { chunk, missing: 0, extra: 0, mismatched: 0 };
+      report.chunks.push(diff);
+    }
+    return diff;
+  };
+  const note = <T>(list: T[], item: T) => {
+    if (list.length < limit) list.push(item);
+    else report.truncated = true;
+  };
+
+  for (let from = start; from < end; from += RECONCILE_WINDOW) {
+    const to = Math.min(from + RECONCILE_WINDOW, end);
+    const stored = await wordStore.loadRange(from, to);
+    const detected = (await scanner.scanRange(from, to)).filter(hit => hit.start >= from);
+    report.stored += stored.length;
+    report.detected += detected.length;
+
+    const storedByKey = new Map(stored.map(hit => [key(hit), hit]));
+    const detectedKeys = new Set(detected.map(key));
+    const diffs: Diff[] = [];
+    const stale: WordHit[] = [];
+    const fresh: WordHit[] = [];
+
+    for (const hit of detected) {
+      const existing = storedByKey.get(key(hit));
+      if (!existing) {
+        diffs.push({ kind: "missing", hit });
+        fresh.push(hit);
+      } else if (!sameWord(hit, existing)) {
+        diffs.push({ kind: "mismatched", hit, previous: existing });
+        stale.push(existing);
+        fresh.push(hit);
+      }
+    }
+    for (const hit of stored) {
+      if (detectedKeys.has(key(hit))) continue;
+      diffs.push({ kind: "extra", hit });
+      stale.push(hit);
+    }
+
+    // Stream order, so `chunks` comes out sorted
+    diffs.sort((a, b) => a.hit.start - b.hit.start);
+    for (const { kind, hit, previous } of diffs) {
+      report.totals[kind]++;
+      chunkDiff(hit)[kind]++;
+      if (kind === "mismatched") note(report.mismatched, { stored: previous!, detected: hit });
+      else note(report[kind], hit);
+    }
+
+    if (fix && (stale.length > 0 || fresh.length > 0)) {
+      await wordStore.replaceWords(stale, fresh);
+    }
+  }
+
+  logger.info({
+    ...report.totals,
+    stored: report.stored,
+    detected: report.detected,
+    fixed: fix,
+    durationMs: Date.now() - startTime,
+  }, 'Word reconciliation finished');
+
+  return report;
+}
@@ -0,0 +1,296 @@
+import express from "express";
+import { CHUNK_SIZE } from "../storage/chunk-store";
+import { dictionaries } from "../core/dictionary";
+import { MAX_PHRASES, MAX_PHRASE_LENGTH } from "../core/phrase-watcher";
+import { LEADERBOARD_SIZE } from "../core/leaderboards";
+import { IntegrityAudit } from "../core/integrity-audit";
+import type { Channel } from "../core/channel";
+import type { RateSnapshot } from "../core/rate-policy";
+import { requireAdmin } from "./require-admin";
+import { httpLogger, logError } from "../utils/logger";
+
+/** Cap on pattern hits returned per request. */
+const MAX_PATTERN_HITS = 1_000;
+
+/** Page size cap for the first-occurrence list. */
+const MAX_FIRSTS_PAGE = 500;
+
+/** Chunks proven per request (the same span `/chars` serves). */
+const MAX_PROOF_CHUNKS = 16;
+
+/**
+ * REST routes scoped to one channel. Mounted at `/v1/channels/:id` for
+ * every channel and additionally at `/v1` for the default one.
+ */
+export function createChannelRouter(channel: Channel, rate: () => RateSnapshot): express.Router {
+  const router = express.Router();
+  const { store, generator } = channel;
+
+  // Health / metrics
+  router.get("/status", (_req, res) => {
+    const { policy, ...speed } = rate();
+    const status = {
+      channel: channel.id,
+      cursor: store.cursor,
+      chunks: store.chunkCount(),
+      dictionarySize: dictionaries.current.size,
+      alphabet: generator.alphabet.name,
+      rng: generator.algorithm,
+      ratePolicy: policy,
+      ...speed,
+      catchUp: channel.catchUp?.progress() ?? null,
+      ledger: channel.ledger.status(),
+      uptimeSec: Math.floor(process.uptime()),
+    };
+
+    httpLogger.debug({ status }, 'Status request');
+    res.json(status);
+  });
+
+  // Random‑access chars
+  router.get("/chars", async (req, res) => {
+    const start = Number(req.query.start);
+    const len = Number(req.query.len);
+
+    if (!Number.isFinite(start) || !Number.isFinite(len) || start < 0 || len <= 0 || len > CHUNK_SIZE * 16) {
+      httpLogger.warn({ start, len }, 'Invalid char range requested');
+      res.status(400).json({ error: "Invalid range" });
+      return;
+    }
+
+    try {
+      const text = await store.readSlice(start, len);
+      res.type("text/plain").send(text);
+    } catch (error) {
+      logError(httpLogger, error, { start, len });
+      res.status(500).json({ error: "Failed to read slice" });
+    }
+  });
+
+  // Tamper evidence: Merkle root over the finished chunks, and inclusion
+  // proofs against it (or against any earlier root a viewer pinned)
+  router.get("/merkle/root", (req, res) => {
+    const size = Number(req.query.size ?? channel.ledger.size);
+    if (!Number.isInteger(size) || size < 0 || size > channel.ledger.size) {
+      res.status(400).json({ error: `size must be 0–${channel.ledger.size}` });
+      return;
+    }
+    res.json({ ...channel.ledger.root(size), chunkSize: CHUNK_SIZE });
+  });
+
+  router.get("/merkle/proof", async (req, res) => {
+    const size = Number(req.query.size ?? channel.ledger.size);
+    if (!Number.isInteger(size) || size < 1 || size > channel.ledger.size) {
+      res.status(400).json({ error: `size must be 1–${channel.ledger.size}` });
+      return;
+    }
+
+    let first: number;
+    let last: number;
+    if (req.query.chunk !== undefined) {
+      first = last = Number(req.query.chunk);
+      if (!Number.isInteger(first) || first < 0) {
+        res.status(400).json({ error: "Invalid chunk" });
+        return;
+      }
+    } else {
+      const start = Number(req.query.start);
+      const len = Number(req.query.len);
+      if (!Number.isInteger(start) || !Number.isInteger(len) || start < 0 || len <= 0
+        || len > CHUNK_SIZE * MAX_PROOF_CHUNKS) {
+        res.status(400).json({ error: "Pass chunk, or start and len (len ≤ 16 chunks)" });
+        return;
+      }
+      first = Math.floor(start / CHUNK_SIZE);
+      last = Math.floor((start + len - 1) / CHUNK_SIZE);
+    }
+    if (last >= size) {
+      res.status(404).json({ error: `Chunk ${last} is not covered by a tree of ${size} chunks` });
+      return;
+    }
+
+    try {
+      const chunks = [];
+      for (let id = first; id <= last; id++) chunks.push(await channel.ledger.prove(id, size));
+      res.json({ ...channel.ledger.root(size), chunks });
+    } catch (error) {
+      logError(httpLogger, error, { context: 'merkle-proof', channel: channel.id, first, last });
+      res.status(500).json({ error: "Failed to build proof" });
+    }
+  });
+
+  // Lightweight stats endpoint
+  router.get("/stats", (_req, res) => {
+    const { policy, ...speed } = rate();
+    res.json({ ...speed, ratePolicy: policy, catchingUp: channel.catchUp?.active ?? false });
+  });
+
+  // All-time leaderboards, maintained incrementally by the channel
+  router.get("/leaderboards", (req, res) => {
+    const limit = Number(req.query.limit ?? 10);
+    if (!Number.isInteger(limit) || limit <= 0 || limit > LEADERBOARD_SIZE) {
+      res.status(400).json({ error: `limit must be 1–${LEADERBOARD_SIZE}` });
+      return;
+    }
+    const { leaderboards } = channel;
+    res.json({
+      distinctWords: leaderboards.distinctWords,
+      longest: leaderboards.top("longest", limit),
+      rarest: leaderboards.top("rarest", limit),
+      repeated: leaderboards.top("repeated", limit),
+    });
+  });
+
+  router.get("/leaderboards/firsts", (req, res) => {
+    const offset = Number(req.query.offset ?? 0);
+    const limit = Number(req.query.limit ?? 100);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit <= 0 || limit > MAX_FIRSTS_PAGE) {
+      res.status(400).json({ error: `offset must be ≥ 0 and limit 1–${MAX_FIRSTS_PAGE}` });
+      return;
+    }
+    res.json({
+      total: channel.leaderboards.distinctWords,
+      offset,
+      words: channel.leaderboards.firstOccurrences(offset, limit),
+    });
+  });
+
+  router.get("/leaderboards/words/:word", (req, res) => {
+    const stats = channel.leaderboards.word(req.params.word);
+    if (!stats) {
+      res.status(404).json({ error: "Word has not been typed yet" });
+      return;
+    }
+    res.json(stats);
+  });
+
+  // Pattern plugins and their hits, newest first; `offset` skips that many
+  router.get("/patterns", (req, res) => {
+    const plugin = req.query.plugin;
+    const offset = Number(req.query.offset ?? 0);
+    const limit = Number(req.query.limit ?? 100);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit <= 0 || limit > MAX_PATTERN_HITS) {
+      res.status(400).json({ error: `offset must be ≥ 0 and limit 1–${MAX_PATTERN_HITS}` });
+      return;
+    }
+    const hits = typeof plugin === "string"
+      ? channel.patternHits.filter(hit => hit.plugin === plugin)
+      : channel.patternHits;
+    const end = Math.max(hits.length - offset, 0);
+    res.json({
+      plugins: channel.patterns.plugins.map(({ name, type, maxLength }) => ({ name, type, maxLength })),
+      total: hits.length,
+      offset,
+      hits: hits.slice(Math.max(end - limit, 0), end).reverse(),
+    });
+  });
+
+  // Phrase watch list: anyone can read the records, admins edit the list
+  router.get("/phrases", (_req, res) => {
+    res.json(channel.phrases.list());
+  });
+
+  router.get("/phrases/:phrase", (req, res) => {
+    const record = channel.phrases.get(req.params.phrase);
+    if (!record) {
+      res.status(404).json({ error: "Phrase is not watched" });
+      return;
+    }
+    res.json(record);
+  });
+
+  router.post("/phrases", requireAdmin, express.json(), async (req, res) => {
+    const phrase = req.body?.phrase;
+    if (typeof phrase !== "string" || phrase.length < 2 || phrase.length > MAX_PHRASE_LENGTH) {
+      res.status(400).json({ error: `phrase must be a string of 2–${MAX_PHRASE_LENGTH} chars` });
+      return;
+    }
+    // A char the alphabet can't produce would make the phrase unreachable
+    const unreachable = [...phrase].find(ch => generator.alphabet.probability(ch) === 0);
+    if (unreachable !== undefined) {
+      res.status(400).json({ error: `"${unreachable}" is not in the ${generator.alphabet.name} alphabet` });
+      return;
+    }
+    if (channel.phrases.get(phrase)) {
+      res.status(409).json({ error: "Phrase is already watched" });
+      return;
+    }
+    if (channel.phrases.size >= MAX_PHRASES) {
+      res.status(409).json({ error: `At most ${MAX_PHRASES} phrases can be watched` });
+      return;
+    }
+
+    try {
+      res.status(201).json(await channel.phrases.add(phrase));
+    } catch (error) {
+      logError(httpLogger, error, { context: 'phrase-add', channel: channel.id, phrase });
+      res.status(500).json({ error: "Failed to add phrase" });
+    }
+  });
+
+  router.delete("/phrases/:phrase", requireAdmin, async (req, res) => {
+    try {
+      if (!await channel.phrases.remove(req.params.phrase)) {
+        res.status(404).json({ error: "Phrase is not watched" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      logError(httpLogger, error, { context: 'phrase-remove', channel: channel.id });
+      res.status(500).json({ error: "Failed to remove phrase" });
+    }
+  });
+
+  // ────────────────  Admin  ────────────────────────────────────────────────
+  const admin = express.Router();
+  admin.use(requireAdmin);
+  admin.use(express.json());
+
+  // Integrity audit: replay the RNG against stored chunks
+  admin.get("/audit", (_req, res) => {
+    if (!channel.audit) {
+      res.status(404).json({ error: "No audit has been run" });
+      return;
+    }
+    res.json(channel.audit.progress());
+  });
+
+  admin.post("/audit", (req, res) => {
+    let audit = channel.audit;
+    if (audit?.progress().status === "running") {
+      res.status(409).json({ error: "An audit is already running", progress: audit.progress() });
+      return;
+    }
+
+    if (req.body?.resume) {
+      if (!audit || audit.finished) {
+        res.status(409).json({ error: "No unfinished audit to resume" });
+        return;
+      }
+    } else {
+      const start = Number(req.body?.start ?? 0);
+      const end = Number(req.body?.end ?? store.cursor);
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start || end > store.cursor) {
+        res.status(400).json({ error: "Invalid range" });
+        return;
+      }
+      audit = channel.audit = new IntegrityAudit(store, generator, { start, end });
+    }
+
+    audit.start().catch(err => logError(httpLogger, err, { context: 'audit', channel: channel.id }));
+    res.status(202).json(audit.progress());
+  });
+
+  admin.post("/audit/pause", (_req, res) => {
+    const audit = channel.audit;
+    if (audit?.progress().status !== "running") {
+      res.status(409).json({ error: "No audit is running" });
+      return;
+    }
+    audit.pause();
+    res.status(202).json(audit.progress());
+  });
+
+  router.use("/admin", admin);
+  return router;
+}
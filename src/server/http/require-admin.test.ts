@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+
+// The token is read when the module loads
+process.env.ADMIN_TOKEN = "s3cret";
+const { adminEnabled, requireAdmin } = await import("./require-admin");
+
+/** Run the guard; returns the status it answered with, or "next". */
+function check(authorization?: string): number | "next" {
+  let outcome: number | "next" | undefined;
+  const req = { url: "/admin/jobs", headers: { authorization } } as unknown as Request;
+  const res = {
+    status(code: number) {
+      outcome = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+  requireAdmin(req, res, () => { outcome = "next"; });
+  return outcome!;
+}
+
+describe("requireAdmin", () => {
+  it("lets the configured bearer token through", () => {
+    assert.ok(adminEnabled);
+    assert.equal(check("Bearer s3cret"), "next");
+  });
+
+  it("rejects missing, wrong and differently sized tokens", () => {
+    assert.equal(check(), 401);
+    assert.equal(check("Bearer s3crex"), 401);
+    assert.equal(check("Bearer s3cret "), 401);
+    assert.equal(check("Bearer é"), 401);
+    assert.equal(check("s3cret"), 401);
+  });
+});
@@ -0,0 +1,27 @@
+import { timingSafeEqual } from "node:crypto";
+import type { RequestHandler } from "express";
+import { httpLogger } from "../utils/logger";
+
+/** Bearer token for the admin routes; they are disabled when unset. */
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+export const adminEnabled = Boolean(ADMIN_TOKEN);
+
+/** Compare in constant time so response timing doesn't leak the token. */
+function isAdminHeader(header: string | undefined): boolean {
+  if (!ADMIN_TOKEN || header === undefined) return false;
+  const given = Buffer.from(header);
+  const expected = Buffer.from(`Bearer ${ADMIN_TOKEN}`);
+  // timingSafeEqual throws on buffers of different lengths
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Guard for every `/admin` router. */
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!isAdminHeader(req.headers.authorization)) {
+    httpLogger.warn({ url: req.url }, 'Rejected admin request');
+    res.status(ADMIN_TOKEN ? 401 : 403).json({ error: ADMIN_TOKEN ? "Unauthorized" : "Admin API disabled" });
+    return;
+  }
+  next();
+};
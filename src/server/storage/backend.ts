@@ -0,0 +1,119 @@
+import path from "node:path";
+import type { ChunkStore } from "./chunk-store";
+import type { ChunkCodecOptions } from "./chunk-codec";
+import { FileChunkStore } from "./file-chunk-store";
+import { FirestoreChunkStore } from "./firestore-chunk-store";
+import { MemoryChunkStore } from "./memory-chunk-store";
+import { SqliteChunkStore } from "./sqlite-chunk-store";
+import type { WordStore } from "./word-store";
+import { FileWordStore } from "./file-word-store";
+import { FirestoreWordStore } from "./firestore-word-store";
+import { MemoryWordStore } from "./memory-word-store";
+import { SqliteWordStore } from "./sqlite-word-store";
+import type { WordStatsStore } from "./word-stats-store";
+import { FileWordStatsStore } from "./file-word-stats-store";
+import { FirestoreWordStatsStore } from "./firestore-word-stats-store";
+import { MemoryWordStatsStore } from "./memory-word-stats-store";
+import type { PatternStore } from "./pattern-store";
+import { FilePatternStore } from "./file-pattern-store";
+import { FirestorePatternStore } from "./firestore-pattern-store";
+import { MemoryPatternStore } from "./memory-pattern-store";
+
+export type StorageBackend = "firestore" | "file" | "sqlite" | "memory";
+
+/** Where every channel keeps its chunks, meta documents, words and stats. */
+export interface StorageConfig {
+  backend: StorageBackend;
+  /** Root directory of the `file` backend. */
+  dataDir: string;
+  /** Database of the `sqlite` backend. */
+  sqliteFile: string;
+  /** Write-ahead logs of the `firestore` backend's hot chunks; undefined disables them. */
+  walDir?: string;
+  /** How the persistent backends encode chunks. */
+  codec: ChunkCodecOptions;
+}
+
+const BACKENDS: readonly StorageBackend[] = ["firestore", "file", "sqlite", "memory"];
+
+/**
+ * MONKEY_STORAGE picks the backend (`firestore` by default; the others
+ * run without Firebase credentials, and `memory` keeps nothing across
+ * restarts). MONKEY_DATA_DIR is the file backend's root directory
+ * (default `./data`) and MONKEY_SQLITE_FILE the SQLite database (default
+ * `<data dir>/monkey.sqlite`). MONKEY_WAL_DIR is where the Firestore
+ * backend logs accepted characters until they are committed (default
+ * `<data dir>/wal`; set it empty to turn the log off).
+ * MONKEY_CHUNK_COMPRESSION=deflate deflates encoded chunks on top of the
+ * bit packing (default `none`).
+ */
+export function loadStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const backend = (env.MONKEY_STORAGE ?? "firestore") as StorageBackend;
+  if (!BACKENDS.includes(backend)) {
+    throw new Error(`Unknown MONKEY_STORAGE "${backend}" (expected ${BACKENDS.join(" | ")})`);
+  }
+  const dataDir = env.MONKEY_DATA_DIR ?? "data";
+  return {
+    backend,
+    dataDir,
+    sqliteFile: env.MONKEY_SQLITE_FILE ?? `${dataDir}/monkey.sqlite`,
+    walDir: (env.MONKEY_WAL_DIR ?? `${dataDir}/wal`) || undefined,
+    codec: { compress: loadChunkCompression(env) },
+  };
+}
+
+function loadChunkCompression(env: NodeJS.ProcessEnv): boolean {
+  const compression = env.MONKEY_CHUNK_COMPRESSION ?? "none";
+  if (compression !== "none" && compression !== "deflate") {
+    throw new Error(`Unknown MONKEY_CHUNK_COMPRESSION "${compression}" (expected none | deflate)`);
+  }
+  return compression === "deflate";
+}
+
+/** Open the chunk store of one channel namespace on the configured backend. */
+export function openChunkStore(storage: StorageConfig, namespace: string): Promise<ChunkStore> {
+  switch (storage.backend) {
+    case "file":      return FileChunkStore.create(storage.dataDir, namespace, storage.codec);
+    case "sqlite":    return SqliteChunkStore.create(storage.sqliteFile, namespace, storage.codec);
+    case "firestore": return FirestoreChunkStore.create(namespace, {
+      walFile: storage.walDir && path.join(storage.walDir, namespace, "chunks.wal"),
+      codec: storage.codec,
+    });
+    case "memory":    return Promise.resolve(new MemoryChunkStore());
+  }
+}
+
+/** Word store of one channel namespace on the configured backend. */
+export function openWordStore(storage: StorageConfig, namespace: string): WordStore {
+  switch (storage.backend) {
+    case "file":      return new FileWordStore(storage.dataDir, namespace);
+    case "sqlite":    return new SqliteWordStore(storage.sqliteFile, namespace);
+    case "firestore": return new FirestoreWordStore(namespace);
+    case "memory":    return new MemoryWordStore();
+  }
+}
+
+/*
+ * Leaderboard stats and pattern hits have no SQLite tables; that backend
+ * keeps them in the file backend's layout under MONKEY_DATA_DIR.
+ */
+
+/** Leaderboard stats of one channel namespace on the configured backend. */
+export function openWordStatsStore(storage: StorageConfig, namespace: string): WordStatsStore {
+  switch (storage.backend) {
+    case "file":
+    case "sqlite":    return new FileWordStatsStore(storage.dataDir, namespace);
+    case "firestore": return new FirestoreWordStatsStore(namespace);
+    case "memory":    return new MemoryWordStatsStore();
+  }
+}
+
+/** Pattern hits of one channel namespace on the configured backend. */
+export function openPatternStore(storage: StorageConfig, namespace: string): PatternStore {
+  switch (storage.backend) {
+    case "file":
+    case "sqlite":    return new FilePatternStore(storage.dataDir, namespace);
+    case "firestore": return new FirestorePatternStore(namespace);
+    case "memory":    return new MemoryPatternStore();
+  }
+}
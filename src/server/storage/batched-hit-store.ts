@@ -0,0 +1,147 @@
+import { storeLogger as logger, logError } from "../utils/logger";
+
+/** Hits per write, and how long (ms) a partial batch may wait. */
+const BATCH_SIZE = 16;
+const FLUSH_DELAY = 5_000;
+
+/** Anything positioned in the stream: word hits, pattern hits. */
+export interface StreamHit {
+  start: number;
+  len: number;
+}
+
+/**
+ * Write batching shared by the word and pattern stores. Hits queue up
+ * until BATCH_SIZE are waiting or FLUSH_DELAY has passed, then go to the
+ * backend in one `write` together with the new persisted position: how
+ * far detection had got when the batch was taken (see `markDetected`),
+ * so a stretch without hits still moves it. The position only moves once
+ * that write succeeded, and backends store it next to the hits, so after
+ * a restart it says how far detection results are durable instead of
+ * being guessed from whichever hits load.
+ */
+export abstract class BatchedHitStore<T extends StreamHit> {
+  private pending: T[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  /** Writes run one at a time so positions only move forward. */
+  private writes: Promise<void> = Promise.resolve();
+  /** Read from the backend (by `load*` or before the first write), then advanced by writes. */
+  protected persistedTo = 0;
+  private positionRead = false;
+  /** Reported by `markDetected`; written with the next batch. */
+  private detectedTo = 0;
+
+  /**
+   * Delete `stale`, upsert `fresh` and record `persistedTo`, in one
+   * atomic write where the backend has them.
+   */
+  protected abstract write(stale: T[], fresh: T[], persistedTo: number): Promise<void>;
+
+  /** The position stored with the hits; the furthest hit's end for stores from before that. */
+  protected abstract readPosition(): Promise<number>;
+
+  /** For `load*`, which read the position together with the hits. */
+  protected restorePosition(position: number): void {
+    this.persistedTo = position;
+    this.positionRead = true;
+  }
+
+  /**
+   * The persisted position, read from the backend on first use. Writes
+   * wait for it, so a store used without loading its hits (CLIs) never
+   * writes a position below the stored one.
+   */
+  async loadPosition(): Promise<number> {
+    if (!this.positionRead) this.restorePosition(await this.readPosition());
+    return this.persistedTo;
+  }
+
+  protected async enqueue(hit: T): Promise<void> {
+    this.pending.push(hit);
+
+    if (this.pending.length >= BATCH_SIZE) {
+      await this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Detection has consumed the stream up to `position` and every hit it
+   * found before that is queued. Written with the next batch, or on its
+   * own after FLUSH_DELAY when no hits come.
+   */
+  markDetected(position: number): void {
+    if (position <= this.detectedTo) return;
+    this.detectedTo = position;
+    if (position > this.persistedTo) this.scheduleFlush();
+  }
+
+  /** Write every queued hit; resolves once they (and earlier writes) are durable. */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.pending.length === 0 && this.detectedTo <= this.persistedTo) return this.writes;
+
+    // Hits added while the batch is written go into the next one
+    const hits = this.pending;
+    this.pending = [];
+    const detectedTo = this.detectedTo;
+    try {
+      await this.commit([], hits, persistedTo => Math.max(persistedTo, detectedTo));
+    } catch (error) {
+      this.pending = hits.concat(this.pending);
+      throw error;
+    }
+  }
+
+  /** Swap `stale` hits for `fresh` ones, after anything still queued. */
+  protected async replace(stale: T[], fresh: T[]): Promise<void> {
+    await this.flush();
+    await this.commit(stale, fresh, persistedTo => persistedTo);
+  }
+
+  /** Move the persisted position to `position`, backwards too (restore tooling). */
+  async resetPosition(position: number): Promise<void> {
+    await this.flush();
+    this.detectedTo = Math.min(this.detectedTo, position);
+    await this.commit([], [], () => position);
+  }
+
+  /** How far detection results are known to be durable. */
+  getLastPersistedPosition(): number {
+    return this.persistedTo;
+  }
+
+  /** Flush what is queued; subclasses release their backend after this. */
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch(err => logError(logger, err, { context: 'hit-flush' }));
+    }, FLUSH_DELAY);
+  }
+
+  /** Queue a write; `advance` maps the current persisted position to the one written. */
+  private commit(stale: T[], fresh: T[], advance: (persistedTo: number) => number): Promise<void> {
+    const run = this.writes.then(async () => {
+      const persistedTo = advance(await this.loadPosition());
+      await this.write(stale, fresh, persistedTo);
+      this.persistedTo = persistedTo;
+    });
+    this.writes = run.catch(() => {});
+    return run;
+  }
+}
+
+/** Largest `start + len`, for stores written before positions were stored. */
+export function furthestEnd(hits: Iterable<StreamHit>): number {
+  let end = 0;
+  for (const hit of hits) end = Math.max(end, hit.start + hit.len);
+  return end;
+}
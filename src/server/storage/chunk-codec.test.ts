@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CHUNK_CODEC_VERSION, chunkCodecVersion, decodeChunk, encodeChunk } from "./chunk-codec";
+import { CHUNK_SIZE } from "./chunk-store";
+
+/** Deterministic text over the first `symbols` chars from `first` on. */
+function text(length: number, symbols: number, first = 97): string {
+  let out = "";
+  for (let i = 0; i < length; i++) out += String.fromCharCode(first + (i * 7919 + (i >> 3)) % symbols);
+  return out;
+}
+
+describe("chunk codec", () => {
+  it("round-trips text over alphabets of every bit width", () => {
+    for (const symbols of [1, 2, 3, 26, 27, 64, 300]) {
+      for (const length of [0, 1, 7, 8, 9, CHUNK_SIZE - 1, CHUNK_SIZE]) {
+        const original = text(length, symbols);
+        assert.equal(decodeChunk(encodeChunk(original)), original, `${symbols} symbols, ${length} chars`);
+        assert.equal(decodeChunk(encodeChunk(original, { compress: true })), original);
+      }
+    }
+  });
+
+  it("round-trips characters outside the lowercase range", () => {
+    const original = "Hello, wörld! ✓ " + text(500, 40, 0x3b1);
+    assert.equal(decodeChunk(encodeChunk(original)), original);
+  });
+
+  it("packs a 26-letter chunk into 5 bits per char", () => {
+    const encoded = encodeChunk(text(CHUNK_SIZE, 26));
+    assert.equal(encoded.length, 2 + 6 + 2 * 26 + CHUNK_SIZE * 5 / 8);
+    assert.equal(encoded[1], 0);
+    assert.equal(chunkCodecVersion(encoded), CHUNK_CODEC_VERSION);
+  });
+
+  it("deflates the body only when that makes it smaller", () => {
+    const skewed = "e".repeat(CHUNK_SIZE - 100) + text(100, 26);
+    const compressed = encodeChunk(skewed, { compress: true });
+    assert.equal(compressed[1] & 1, 1);
+    assert.ok(compressed.length < encodeChunk(skewed).length);
+    assert.equal(decodeChunk(compressed), skewed);
+
+    const single = encodeChunk("a", { compress: true });
+    assert.equal(single[1] & 1, 0);
+  });
+
+  it("decodes from a view into a larger buffer", () => {
+    const encoded = encodeChunk(text(1000, 26));
+    const backing = new Uint8Array(encoded.length + 20);
+    backing.set(encoded, 10);
+    assert.equal(decodeChunk(backing.subarray(10, 10 + encoded.length)), text(1000, 26));
+  });
+
+  it("refuses unknown versions", () => {
+    const encoded = encodeChunk("abc");
+    encoded[0] = CHUNK_CODEC_VERSION + 1;
+    assert.throws(() => decodeChunk(encoded), /Unsupported chunk encoding version/);
+  });
+});
@@ -0,0 +1,126 @@
+import { deflateRawSync, inflateRawSync } from "node:zlib";
+
+/* ────────────────────────────────────────────────────────────── */
+/*  Binary chunk format, version 1                                */
+/*    u8   version                                                */
+/*    u8   flags            bit 0: body is deflate-raw compressed */
+/*    body:                                                       */
+/*      u32le  length       chars in the chunk                    */
+/*      u16le  n            distinct symbols                      */
+/*      u16le × n           symbol table (UTF-16 code units)      */
+/*      bits                each char's table index, LSB first,   */
+/*                          ceil(log2 n) bits apiece              */
+/*                                                                */
+/*  The table makes every chunk self-describing: decoding needs   */
+/*  no alphabet, and chunks of a 26-symbol stream cost 5 bits per */
+/*  char instead of 8+ for text.                                  */
+/* ────────────────────────────────────────────────────────────── */
+
+export const CHUNK_CODEC_VERSION = 1;
+
+const FLAG_DEFLATE = 0b1;
+const HEADER_BYTES = 2;
+
+export interface ChunkCodecOptions {
+  /**
+   * Deflate the packed body too, kept only when it comes out smaller
+   * (skewed alphabet weights; uniform streams barely compress).
+   */
+  compress?: boolean;
+}
+
+/** Encode chunk text in the current format. */
+export function encodeChunk(text: string, options: ChunkCodecOptions = {}): Buffer {
+  const body = pack(text);
+  let flags = 0;
+  let payload = body;
+
+  if (options.compress) {
+    const deflated = deflateRawSync(body);
+    if (deflated.length < body.length) {
+      flags |= FLAG_DEFLATE;
+      payload = deflated;
+    }
+  }
+
+  const out = Buffer.allocUnsafe(HEADER_BYTES + payload.length);
+  out[0] = CHUNK_CODEC_VERSION;
+  out[1] = flags;
+  payload.copy(out, HEADER_BYTES);
+  return out;
+}
+
+/** Decode a chunk written by any supported version. */
+export function decodeChunk(data: Uint8Array): string {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const version = bytes[0];
+  if (version !== CHUNK_CODEC_VERSION) {
+    throw new Error(`Unsupported chunk encoding version ${version}`);
+  }
+
+  const payload = bytes.subarray(HEADER_BYTES);
+  return unpack(bytes[1] & FLAG_DEFLATE ? inflateRawSync(payload) : payload);
+}
+
+/** Version of an encoded chunk, for tools deciding whether to re-encode. */
+export function chunkCodecVersion(data: Uint8Array): number {
+  return data[0];
+}
+
+/* ---------- bit packing --------------------------------------- */
+
+function bitsFor(symbols: number): number {
+  return symbols <= 1 ? 0 : Math.ceil(Math.log2(symbols));
+}
+
+function pack(text: string): Buffer {
+  const table = [...new Set(text.split(""))].sort();
+  const index = new Map(table.map((ch, i) => [ch.charCodeAt(0), i]));
+  const bits = bitsFor(table.length);
+
+  const tableBytes = 6 + 2 * table.length;
+  const out = Buffer.alloc(tableBytes + Math.ceil(text.length * bits / 8));
+  out.writeUInt32LE(text.length, 0);
+  out.writeUInt16LE(table.length, 4);
+  table.forEach((ch, i) => out.writeUInt16LE(ch.charCodeAt(0), 6 + 2 * i));
+
+  let acc = 0;
+  let filled = 0;
+  let pos = tableBytes;
+  for (let i = 0; i < text.length; i++) {
+    acc |= index.get(text.charCodeAt(i))! << filled;
+    filled += bits;
+    while (filled >= 8) {
+      out[pos++] = acc & 0xff;
+      acc >>>= 8;
+      filled -= 8;
+    }
+  }
+  if (filled > 0) out[pos] = acc & 0xff;
+  return out;
+}
+
+function unpack(body: Buffer): string {
+  const length = body.readUInt32LE(0);
+  const n = body.readUInt16LE(4);
+  const table: string[] = [];
+  for (let i = 0; i < n; i++) table.push(String.fromCharCode(body.readUInt16LE(6 + 2 * i)));
+
+  const bits = bitsFor(n);
+  const mask = (1 << bits) - 1;
+  const chars = new Array<string>(length);
+
+  let acc = 0;
+  let filled = 0;
+  let pos = 6 + 2 * n;
+  for (let i = 0; i < length; i++) {
+    while (filled < bits) {
+      acc |= body[pos++] << filled;
+      filled += 8;
+    }
+    chars[i] = table[acc & mask];
+    acc >>>= bits;
+    filled -= bits;
+  }
+  return chars.join("");
+}
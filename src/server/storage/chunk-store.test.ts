@@ -0,0 +1,189 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { CHUNK_SIZE, type ChunkStore } from "./chunk-store";
+import { FileChunkStore } from "./file-chunk-store";
+import { MemoryChunkStore } from "./memory-chunk-store";
+import { SqliteChunkStore } from "./sqlite-chunk-store";
+
+/**
+ * One behaviour suite, run against every local ChunkStore. Backends that
+ * survive a restart also get the reopen and crash cases.
+ */
+interface Backend {
+  name: string;
+  durable: boolean;
+  /** Fresh, empty storage; the returned function opens it (again). */
+  create(): Promise<() => Promise<ChunkStore>>;
+}
+
+const scratch: string[] = [];
+
+async function tempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "chunk-store-"));
+  scratch.push(dir);
+  return dir;
+}
+
+after(async () => {
+  for (const dir of scratch) await fs.rm(dir, { recursive: true, force: true });
+});
+
+const BACKENDS: Backend[] = [
+  {
+    name: "MemoryChunkStore",
+    durable: false,
+    async create() {
+      return async () => new MemoryChunkStore();
+    },
+  },
+  {
+    name: "FileChunkStore",
+    durable: true,
+    async create() {
+      const dir = await tempDir();
+      return () => FileChunkStore.create(dir);
+    },
+  },
+  {
+    name: "SqliteChunkStore",
+    durable: true,
+    async create() {
+      const file = path.join(await tempDir(), "monkey.sqlite");
+      return () => SqliteChunkStore.create(file);
+    },
+  },
+];
+
+/** Deterministic a–z text, so mismatches show where they start. */
+function text(length: number, offset = 0): string {
+  let out = "";
+  for (let i = 0; i < length; i++) out += String.fromCharCode(97 + ((i + offset) * 7) % 26);
+  return out;
+}
+
+for (const backend of BACKENDS) {
+  describe(backend.name, () => {
+    it("appends single chars across a chunk boundary", async () => {
+      const store = await (await backend.create())();
+      const expected = text(CHUNK_SIZE + 3);
+      for (let i = 0; i < expected.length; i++) {
+        assert.equal(await store.append(expected[i]), i);
+      }
+
+      assert.equal(store.cursor, CHUNK_SIZE + 3);
+      assert.equal(store.chunkCount(), 2);
+      assert.equal(await store.readChunk(0), expected.slice(0, CHUNK_SIZE));
+      assert.equal(await store.readChunk(1), expected.slice(CHUNK_SIZE));
+      await store.close();
+    });
+
+    it("appends runs spanning several chunks", async () => {
+      const store = await (await backend.create())();
+      const sealed: number[] = [];
+      store.setFlushListener(id => sealed.push(id));
+
+      assert.equal(await store.appendMany(text(100)), 0);
+      assert.equal(await store.appendMany(text(2 * CHUNK_SIZE, 100)), 100);
+      assert.equal(await store.appendMany(""), 2 * CHUNK_SIZE + 100);
+
+      assert.equal(store.cursor, 2 * CHUNK_SIZE + 100);
+      assert.equal(store.chunkCount(), 3);
+      assert.deepEqual(sealed, [0, 1]);
+      assert.equal(await store.readChunk(2), text(100, 2 * CHUNK_SIZE));
+      await store.close();
+    });
+
+    it("reads slices across chunks", async () => {
+      const store = await (await backend.create())();
+      const expected = text(3 * CHUNK_SIZE + 10);
+      await store.appendMany(expected);
+
+      const start = CHUNK_SIZE - 5;
+      assert.equal(await store.readSlice(start, CHUNK_SIZE + 10), expected.slice(start, start + CHUNK_SIZE + 10));
+      assert.equal(await store.readSlice(0, expected.length), expected);
+      assert.equal(await store.readSlice(3 * CHUNK_SIZE + 5, 100), expected.slice(3 * CHUNK_SIZE + 5));
+      assert.equal(await store.readSlice(10, 0), "");
+      await store.close();
+    });
+
+    it("overwrites finished chunks only", async () => {
+      const store = await (await backend.create())();
+      await store.appendMany(text(CHUNK_SIZE + 10));
+
+      const replacement = text(CHUNK_SIZE, 3);
+      await store.writeChunk(0, replacement);
+      assert.equal(await store.readChunk(0), replacement);
+      assert.equal(await store.readSlice(CHUNK_SIZE - 2, 4), replacement.slice(-2) + text(2, CHUNK_SIZE));
+
+      await assert.rejects(store.writeChunk(1, text(CHUNK_SIZE)), /not finished/);
+      await assert.rejects(store.writeChunk(0, text(10)), /must be/);
+      await store.close();
+    });
+
+    it("rewinds to an earlier cursor", async () => {
+      const store = await (await backend.create())();
+      const expected = text(2 * CHUNK_SIZE + 50);
+      await store.appendMany(expected);
+
+      await store.rewind(CHUNK_SIZE - 10);
+      assert.equal(store.cursor, CHUNK_SIZE - 10);
+      assert.equal(store.chunkCount(), 1);
+      assert.equal(await store.readSlice(0, CHUNK_SIZE), expected.slice(0, CHUNK_SIZE - 10));
+      await assert.rejects(store.rewind(CHUNK_SIZE), RangeError);
+
+      assert.equal(await store.appendMany(text(20, 1)), CHUNK_SIZE - 10);
+      assert.equal(await store.readSlice(CHUNK_SIZE - 12, 4), expected.slice(CHUNK_SIZE - 12, CHUNK_SIZE - 10) + text(2, 1));
+      await store.close();
+    });
+
+    it("keeps meta documents", async () => {
+      const store = await (await backend.create())();
+      assert.equal(await store.readMeta("generator"), undefined);
+      await store.writeMeta("generator", { seed: 42 });
+      assert.deepEqual(await store.readMeta("generator"), { seed: 42 });
+      await store.close();
+    });
+
+    it("reopens where it was closed", { skip: !backend.durable }, async () => {
+      const open = await backend.create();
+      const store = await open();
+      const expected = text(CHUNK_SIZE + 1234);
+      store.setCursorState(() => ({ position: store.cursor }));
+      await store.appendMany(expected);
+      await store.writeMeta("phrases", { list: ["abc"] });
+      await store.close();
+
+      const reopened = await open();
+      assert.equal(reopened.cursor, expected.length);
+      assert.equal(reopened.chunkCount(), 2);
+      assert.deepEqual(reopened.cursorState, { position: expected.length });
+      assert.equal(await reopened.readSlice(0, expected.length), expected);
+      assert.deepEqual(await reopened.readMeta("phrases"), { list: ["abc"] });
+
+      assert.equal(await reopened.appendMany(text(CHUNK_SIZE, 5)), expected.length);
+      assert.equal(await reopened.readSlice(expected.length - 2, 4), expected.slice(-2) + text(2, 5));
+      await reopened.close();
+    });
+
+    it("recovers the last commit after a crash", { skip: !backend.durable }, async () => {
+      const open = await backend.create();
+      const store = await open();
+      const expected = text(CHUNK_SIZE + 100);
+      await store.appendMany(expected);
+      await store.close({ flush: false });
+
+      // The full chunk was committed; the 100 chars after it may not have been
+      const reopened = await open();
+      assert.ok(reopened.cursor >= CHUNK_SIZE && reopened.cursor <= expected.length, `cursor ${reopened.cursor}`);
+      assert.equal(await reopened.readSlice(0, reopened.cursor), expected.slice(0, reopened.cursor));
+
+      const resumeAt = reopened.cursor;
+      assert.equal(await reopened.append("z"), resumeAt);
+      assert.equal(await reopened.readSlice(resumeAt - 1, 2), expected[resumeAt - 1] + "z");
+      await reopened.close();
+    });
+  });
+}
@@ -8,20 +8,84 @@ export const CHUNK_SIZE = 8_192;
 
 /**
  *  cursor()        – next absolute char index to be written
+ *  persistedAt     – wall-clock ms of the last durable cursor write
+ *                    (undefined for a store that never wrote one)
  *  append(ch)      – push ONE char into the hot buffer
+ *  appendMany(txt) – push a run of chars, flushing every chunk it fills
  *  flush()         – force-write the buffer if it’s full (auto-called)
  *  readSlice(s,l)  – arbitrary slice, like Array.slice()
  *  readChunk(id)   – entire chunk (finished OR current hot one)
  *  chunkCount()    – finished chunks + (hot buffer ? 1 : 0)
+ *  writeChunk(i,t) – overwrite a FINISHED chunk (repair / restore only)
+ *  reencodeChunk(i)– rewrite a FINISHED chunk stored in an older encoding
+ *  rewind(c)       – cut the stream back to index c (restore only)
+ *  readMeta(key)   – small JSON document stored next to the cursor
+ *  writeMeta(k,v)  – overwrite such a document
+ *  cursorState     – state saved with the last durable cursor write
+ *  setCursorState  – register the provider saved with every cursor write
+ *  setFlushListener– register a callback for every chunk flush() seals
+ *  close()         – persist anything buffered and release timers
  */
+
+export interface CloseOptions {
+  /**
+   * Persist the buffered cursor first (default true). False drops it as
+   * a crash would, for tests of what survives one.
+   */
+  flush?: boolean;
+}
+
 export interface ChunkStore {
   readonly cursor: number;
+  readonly persistedAt: number | undefined;
   append(ch: string): Promise<number>;              // returns written index
+  appendMany(text: string): Promise<number>;        // returns index of text[0]
   flush(): Promise<void>;
 
   readSlice(start: number, len: number): Promise<string>;
   readChunk(chunkId: number): Promise<string>;
 
   chunkCount(): number;
+  writeChunk(chunkId: number, text: string): Promise<void>;
+  /**
+   * Re-encode a finished chunk with the current chunk codec (see
+   * chunk-codec.ts). Resolves false when it already uses it, or the store
+   * keeps plain text anyway.
+   */
+  reencodeChunk(chunkId: number): Promise<boolean>;
+  /**
+   * Drop everything from index `cursor` on and commit the cursor there
+   * (with the owner's state), deleting the chunks past it. Nothing may
+   * append meanwhile. Rewinding to the current cursor just re-commits it.
+   */
+  rewind(cursor: number): Promise<void>;
+
+  readMeta<T extends object>(key: string): Promise<T | undefined>;
+  writeMeta(key: string, value: object): Promise<void>;
+
+  /** Whatever the provider returned at the last durable cursor write. */
+  readonly cursorState: object | undefined;
+  /**
+   * Lets the owner (detectors) save state atomically with the cursor.
+   * Called on every cursor write, so it must be cheap and synchronous.
+   */
+  setCursorState(provider: (() => object) | undefined): void;
+  /**
+   * Called with each full chunk once flush() has made it durable, in
+   * chunk order (the channel hashes them for its ledger). Must be cheap
+   * and synchronous, like the cursor state provider.
+   */
+  setFlushListener(listener: ((chunkId: number, text: string) => void) | undefined): void;
+
+  close(options?: CloseOptions): Promise<void>;
+}
+
+/** Meta key holding the generator description (alphabet, …). */
+export const GENERATOR_META_KEY = "generator";
+ 
+/** Rewinds only go back: `cursor` must lie in [0, current]. */
+export function checkRewind(cursor: number, current: number): void {
+  if (!Number.isInteger(cursor) || cursor < 0 || cursor > current) {
+    throw new RangeError(`Cannot rewind to ${cursor}; the cursor is at ${current}`);
+  }
 }
- 
\ No newline at end of file
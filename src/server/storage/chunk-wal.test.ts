@@ -0,0 +1,91 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { ChunkWal } from "./chunk-wal";
+
+const scratch: string[] = [];
+
+async function walFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "chunk-wal-"));
+  scratch.push(dir);
+  return path.join(dir, "chunks.wal");
+}
+
+after(async () => {
+  for (const dir of scratch) await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("ChunkWal", () => {
+  it("replays what a previous process logged", async () => {
+    const file = await walFile();
+    const wal = await ChunkWal.open(file);
+    await wal.append(100, "abc");
+    await wal.append(103, "de");
+    await wal.close();
+
+    const reopened = await ChunkWal.open(file);
+    assert.equal(reopened.start, 100);
+    assert.equal(reopened.end, 105);
+    assert.equal(reopened.tail(100), "abcde");
+    assert.equal(reopened.tail(102), "cde");
+    assert.equal(reopened.tail(105), "");
+    await reopened.append(105, "f");
+    await reopened.close();
+  });
+
+  it("drops a line cut short and everything after a gap", async () => {
+    const file = await walFile();
+    await fs.writeFile(file, '{"at":0,"text":"ab"}\n{"at":5,"text":"xy"}\n{"at":7,"te');
+
+    const wal = await ChunkWal.open(file);
+    assert.equal(wal.end, 2);
+    assert.equal(wal.tail(0), "ab");
+    await wal.append(2, "c");
+    await wal.close();
+
+    assert.equal(await fs.readFile(file, "utf8"), '{"at":0,"text":"ab"}\n{"at":2,"text":"c"}\n');
+  });
+
+  it("compacts to what the store has not committed", async () => {
+    const file = await walFile();
+    const wal = await ChunkWal.open(file);
+    await wal.append(0, "abcdef");
+    await wal.compact(4);
+    assert.equal(wal.start, 4);
+    assert.equal(wal.tail(4), "ef");
+
+    // A compaction that resolves late must not bring back or drop anything
+    await wal.compact(2);
+    assert.equal(wal.tail(4), "ef");
+    await wal.compact(10);
+    assert.equal(wal.tail(4), "");
+    await wal.append(10, "g");
+    await wal.close();
+
+    const replayed = await ChunkWal.open(file);
+    assert.equal(replayed.tail(10), "g");
+    await replayed.close();
+  });
+
+  it("can't fill a gap before its start, and resets to the store's cursor", async () => {
+    const file = await walFile();
+    const wal = await ChunkWal.open(file);
+    await wal.append(500, "abc");
+    await wal.close();
+
+    const reopened = await ChunkWal.open(file);
+    assert.equal(reopened.tail(400), undefined);
+    await assert.rejects(reopened.append(400, "x"), /expected 503/);
+
+    await reopened.reset(400);
+    await reopened.append(400, "x");
+    assert.equal(reopened.tail(400), "x");
+    await reopened.close();
+
+    const replayed = await ChunkWal.open(file);
+    assert.equal(replayed.tail(400), "x");
+    await replayed.close();
+  });
+});
@@ -0,0 +1,143 @@
+import fs, { type FileHandle } from "node:fs/promises";
+import path from "node:path";
+import { readIfExists, replaceDurable } from "./durable-file";
+import { storeLogger as logger } from "../utils/logger";
+
+/** One line of the log: `text` was accepted at stream index `at`. */
+interface WalRecord {
+  at: number;
+  text: string;
+}
+
+/**
+ * Local write-ahead log for a remote chunk store's hot chunk. Every run
+ * of accepted characters is appended and fsync'd before the store takes
+ * it, so text clients have seen survives a crash even though the backing
+ * store only commits every couple of seconds. Once the store has
+ * committed up to some index, `compact` rewrites the log to just the
+ * characters after it.
+ */
+export class ChunkWal {
+  private readonly file: string;
+  private handle?: FileHandle;
+
+  /** Logged characters not yet compacted away: [base, base + text.length). */
+  private base = 0;
+  private text = "";
+
+  /** Appends and compactions run one at a time, in order. */
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor(file: string) {
+    this.file = file;
+  }
+
+  /** Open the log at `file`, replaying whatever a previous process left in it. */
+  static async open(file: string): Promise<ChunkWal> {
+    const self = new ChunkWal(file);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    const lines = (await readIfExists(file) ?? "").split("\n");
+    // A line cut short by the crash was never acknowledged
+    let clean = !lines.pop();
+
+    for (const line of lines) {
+      const record = JSON.parse(line) as WalRecord;
+      if (self.text === "") self.base = record.at;
+      if (record.at !== self.end) {
+        logger.error({ file, expected: self.end, at: record.at }, 'WAL has a gap; ignoring the rest');
+        clean = false;
+        break;
+      }
+      self.text += record.text;
+    }
+
+    // Start from what was replayed so new records never follow a bad one
+    if (!clean) {
+      logger.warn({ file, base: self.base, length: self.text.length }, 'Rewriting damaged WAL');
+      await replaceDurable(file, self.record());
+    }
+    self.handle = await fs.open(file, "a");
+    return self;
+  }
+
+  /** Index of the first logged character. */
+  get start() {
+    return this.base;
+  }
+
+  /** Index after the last logged character. */
+  get end() {
+    return this.base + this.text.length;
+  }
+
+  /**
+   * Logged characters from `cursor` on, i.e. what the backing store is
+   * missing. Undefined if the log starts after `cursor` and so can't
+   * fill the gap.
+   */
+  tail(cursor: number): string | undefined {
+    if (this.text === "" || cursor >= this.end) return "";
+    if (cursor < this.base) return undefined;
+    return this.text.slice(cursor - this.base);
+  }
+
+  /** Log `text` accepted at index `at`; resolves once it is on disk. */
+  append(at: number, text: string): Promise<void> {
+    return this.serialize(async () => {
+      if (this.text === "") this.base = at;
+      if (at !== this.end) throw new Error(`WAL append at ${at}, expected ${this.end}`);
+
+      await this.handle!.write(JSON.stringify({ at, text } satisfies WalRecord) + "\n");
+      await this.handle!.datasync();
+      this.text += text;
+    });
+  }
+
+  /**
+   * The backing store now holds everything before `upTo`; rewrite the
+   * log to what comes after it.
+   */
+  compact(upTo: number): Promise<void> {
+    return this.serialize(async () => {
+      // Compactions may resolve out of order; a stale one must not drop what a later one kept
+      if (upTo <= this.base) return;
+      this.text = upTo < this.end ? this.text.slice(upTo - this.base) : "";
+      this.base = upTo;
+      await this.rewrite();
+    });
+  }
+
+  /** The store was rewound to `at`: forget everything logged. */
+  reset(at: number): Promise<void> {
+    return this.serialize(async () => {
+      this.text = "";
+      this.base = at;
+      await this.rewrite();
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+    await this.handle?.close();
+    this.handle = undefined;
+  }
+
+  private async rewrite() {
+    await this.handle!.close();
+    this.handle = undefined;
+    await replaceDurable(this.file, this.record());
+    this.handle = await fs.open(this.file, "a");
+  }
+
+  /** Everything still logged, as a single record. */
+  private record(): string {
+    return this.text ? JSON.stringify({ at: this.base, text: this.text } satisfies WalRecord) + "\n" : "";
+  }
+
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.writes.then(task);
+    this.writes = run.catch(() => {});
+    return run;
+  }
+}
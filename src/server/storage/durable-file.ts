@@ -0,0 +1,97 @@
+import { createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+/* ────────────────────────────────────────────────────────────── */
+/*  fsync'd file primitives shared by the file backend's stores.  */
+/*  A write has reached the disk once its promise resolves.       */
+/* ────────────────────────────────────────────────────────────── */
+
+/** File contents, or undefined if it doesn't exist. */
+export async function readIfExists(target: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(target, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+/** Raw file bytes, or undefined if it doesn't exist. */
+export async function readBytesIfExists(target: string): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+/** Remove a file if it exists. */
+export async function removeIfExists(target: string): Promise<void> {
+  try {
+    await fs.unlink(target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+}
+
+/** Append and fsync. */
+export async function appendDurable(target: string, text: string): Promise<void> {
+  if (!text) return;
+  const file = await fs.open(target, "a");
+  try {
+    await file.write(text);
+    await file.sync();
+  } finally {
+    await file.close();
+  }
+}
+
+/** Atomic replace: temp file, fsync, rename, fsync the directory. */
+export async function replaceDurable(target: string, contents: string | Uint8Array): Promise<void> {
+  const temp = `${target}.tmp`;
+  const file = await fs.open(temp, "w");
+  try {
+    await file.writeFile(contents);
+    await file.sync();
+  } finally {
+    await file.close();
+  }
+  await fs.rename(temp, target);
+  await syncDirectory(path.dirname(target));
+}
+
+/**
+ * Atomic replace with what `source` yields, piped through `transforms`
+ * (e.g. gzip), for files too big to build in memory.
+ */
+export async function replaceDurableStream(
+  target: string,
+  source: AsyncIterable<string | Uint8Array>,
+  ...transforms: NodeJS.ReadWriteStream[]
+): Promise<void> {
+  const temp = `${target}.tmp`;
+  await pipeline([Readable.from(source), ...transforms, createWriteStream(temp)]);
+
+  // fsync flushes the file, not just the descriptor, so reopening it works
+  const file = await fs.open(temp, "r+");
+  try {
+    await file.sync();
+  } finally {
+    await file.close();
+  }
+  await fs.rename(temp, target);
+  await syncDirectory(path.dirname(target));
+}
+
+async function syncDirectory(dir: string): Promise<void> {
+  const handle = await fs.open(dir, "r");
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
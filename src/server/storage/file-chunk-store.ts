@@ -0,0 +1,370 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { CHUNK_SIZE, checkRewind, type ChunkStore, type CloseOptions } from "./chunk-store";
+import {
+  CHUNK_CODEC_VERSION, chunkCodecVersion, decodeChunk, encodeChunk, type ChunkCodecOptions,
+} from "./chunk-codec";
+import { appendDurable, readBytesIfExists, readIfExists, removeIfExists, replaceDurable } from "./durable-file";
+import { storeLogger as logger, logError, logPerformance } from "../utils/logger";
+
+/* ────────────────────────────────────────────────────────────── */
+/*  Directory layout (mirrors the Firestore collections)          */
+/*    <dir>/chunks/                                               */
+/*      ├─ chunk_0.bin     finished, encoded (chunk-codec.ts)     */
+/*      └─ chunk_1.txt     working chunk, appended as it grows    */
+/*    <dir>/meta/                                                 */
+/*      ├─ cursor.json     { index, updatedAt, state? }           */
+/*      └─ generator.json  { seed, algorithm, alphabet }          */
+/*                                                                */
+/*  Chunk text is appended and fsync'd BEFORE the cursor is       */
+/*  replaced (write temp + fsync + rename), so the cursor never   */
+/*  points past durable text. Text beyond the cursor after a      */
+/*  crash is dropped on open. A full chunk is sealed into its     */
+/*  .bin after the cursor moved past it; until then (or for       */
+/*  chunks written before the codec) the .txt is read instead.    */
+/*                                                                */
+/*  Non-default channels live under <dir>/channels/<id>/.         */
+/* ────────────────────────────────────────────────────────────── */
+
+const CHUNKS = "chunks";
+const META = "meta";
+const CURSOR = "cursor";
+/** How often (ms) to persist the cursor, as FirestoreChunkStore does. */
+const CURSOR_UPDATE_INTERVAL = 2_000;
+
+interface CursorDocument {
+  index: number;
+  updatedAt: number;
+  state?: object;
+}
+
+/**
+ *  Append-only local store for running without Firebase (dev boxes, CI,
+ *  single-node deployments). Same semantics as the other stores: one hot
+ *  chunk in RAM, written through to its file on every cursor flush.
+ */
+export class FileChunkStore implements ChunkStore {
+  private readonly dir: string;
+  private readonly codec: ChunkCodecOptions;
+
+  /** Currently building chunk (also appended to its file as it grows). */
+  private workingChunk = "";
+  private workingChunkId = 0;
+  private _cursor = 0;
+  /** Accepted chars not on disk yet, i.e. [writtenTo, cursor). */
+  private pending = "";
+  private writtenTo = 0;
+  private _persistedAt?: number;
+  private _cursorState?: object;
+  private cursorStateProvider?: () => object;
+  private flushListener?: (chunkId: number, text: string) => void;
+
+  private cursorDirty = false;
+  private readonly cursorTimer: NodeJS.Timeout;
+  /** Disk writes run one at a time so appends never interleave. */
+  private writes: Promise<void> = Promise.resolve();
+
+  get cursor() {
+    return this._cursor;
+  }
+
+  get persistedAt() {
+    return this._persistedAt;
+  }
+
+  get cursorState() {
+    return this._cursorState;
+  }
+
+  setCursorState(provider: (() => object) | undefined): void {
+    this.cursorStateProvider = provider;
+  }
+
+  setFlushListener(listener: ((chunkId: number, text: string) => void) | undefined): void {
+    this.flushListener = listener;
+  }
+
+  private constructor(dir: string, codec: ChunkCodecOptions) {
+    this.dir = dir;
+    this.codec = codec;
+    this.cursorTimer = setInterval(() => {
+      this.flushCursor().catch(err => logError(logger, err, { context: 'cursor-flush' }));
+    }, CURSOR_UPDATE_INTERVAL);
+  }
+
+  /** Open (or create) the store for `namespace` under `baseDir`. */
+  static async create(
+    baseDir: string,
+    namespace: string = "",
+    codec: ChunkCodecOptions = {},
+  ): Promise<FileChunkStore> {
+    const startTime = Date.now();
+    const self = new FileChunkStore(path.join(baseDir, namespace), codec);
+
+    try {
+      await fs.mkdir(path.join(self.dir, CHUNKS), { recursive: true });
+      await fs.mkdir(path.join(self.dir, META), { recursive: true });
+
+      const cursor = await self.readMeta<CursorDocument>(CURSOR);
+      self._cursor = cursor?.index ?? 0;
+      self._persistedAt = cursor?.updatedAt;
+      self._cursorState = cursor?.state;
+      self.workingChunkId = Math.floor(self._cursor / CHUNK_SIZE);
+
+      // Anything past the cursor was appended but never committed
+      const expected = self._cursor - self.workingChunkId * CHUNK_SIZE;
+      const onDisk = await readIfExists(self.textPath(self.workingChunkId)) ?? "";
+      if (onDisk.length < expected) {
+        throw new Error(`Chunk ${self.workingChunkId} holds ${onDisk.length} chars, cursor expects ${expected}`);
+      }
+      self.workingChunk = onDisk.slice(0, expected);
+      self.writtenTo = self._cursor;
+      if (onDisk.length > expected) {
+        await replaceDurable(self.textPath(self.workingChunkId), self.workingChunk);
+        logger.warn({ chunkId: self.workingChunkId, dropped: onDisk.length - expected }, 'Dropped uncommitted chars');
+      }
+      // The last full chunk may not have been sealed before a crash
+      if (self.workingChunkId > 0) await self.reencodeChunk(self.workingChunkId - 1);
+
+      logPerformance(logger, 'file-store-init', startTime, {
+        dir: self.dir,
+        cursor: self._cursor,
+        workingChunkId: self.workingChunkId,
+      });
+      return self;
+    } catch (error) {
+      clearInterval(self.cursorTimer);
+      logError(logger, error, { context: 'file-store-init', dir: self.dir });
+      throw error;
+    }
+  }
+
+  /* ---------- writes ------------------------------------------ */
+
+  async append(ch: string): Promise<number> {
+    const idx = this._cursor++;
+    this.workingChunk += ch;
+    this.pending += ch;
+    this.cursorDirty = true;
+
+    if (this.workingChunk.length === CHUNK_SIZE) await this.flush();
+    return idx;
+  }
+
+  async appendMany(text: string): Promise<number> {
+    const start = this._cursor;
+    let offset = 0;
+
+    while (offset < text.length) {
+      const take = Math.min(CHUNK_SIZE - this.workingChunk.length, text.length - offset);
+      const part = text.slice(offset, offset + take);
+      this.workingChunk += part;
+      this.pending += part;
+      this._cursor += take;
+      offset += take;
+      this.cursorDirty = true;
+
+      if (this.workingChunk.length === CHUNK_SIZE) await this.flush();
+    }
+    return start;
+  }
+
+  /** Persist a full working chunk and move on to the next. */
+  async flush(): Promise<void> {
+    if (this.workingChunk.length !== CHUNK_SIZE) return;
+
+    const id = this.workingChunkId;
+    const text = this.workingChunk;
+    await this.persist();
+    this.workingChunkId += 1;
+    this.workingChunk = "";
+    await this.serialize(() => this.seal(id, text));
+    this.flushListener?.(id, text);
+    logger.info({ chunkId: id }, 'Chunk flushed');
+  }
+
+  private async flushCursor(): Promise<void> {
+    if (this.cursorDirty) await this.persist();
+  }
+
+  /**
+   * Append the pending chars to their chunk files, fsync, then commit the
+   * cursor (and the owner's state, taken together with the pending text).
+   */
+  private persist(): Promise<void> {
+    return this.serialize(async () => {
+      const from = this.writtenTo;
+      const text = this.pending;
+      const state = this.cursorStateProvider?.();
+      this.pending = "";
+      this.cursorDirty = false;
+
+      let offset = 0;
+      try {
+        while (offset < text.length) {
+          const pos = from + offset;
+          const take = Math.min(CHUNK_SIZE - (pos % CHUNK_SIZE), text.length - offset);
+          await appendDurable(this.textPath(Math.floor(pos / CHUNK_SIZE)), text.slice(offset, offset + take));
+          offset += take;
+        }
+      } catch (error) {
+        // Keep what didn't make it for the next attempt
+        this.writtenTo = from + offset;
+        this.pending = text.slice(offset) + this.pending;
+        this.cursorDirty = true;
+        throw error;
+      }
+
+      this.writtenTo = from + text.length;
+      const updatedAt = Date.now();
+      const doc: CursorDocument = state
+        ? { index: this.writtenTo, updatedAt, state }
+        : { index: this.writtenTo, updatedAt };
+      await this.writeMeta(CURSOR, doc);
+      this._persistedAt = updatedAt;
+      this._cursorState = state;
+    });
+  }
+
+  /* ---------- reads ------------------------------------------- */
+
+  async readChunk(id: number): Promise<string> {
+    if (id === this.workingChunkId) return this.workingChunk;
+    if (id > this.workingChunkId) return "";
+    return this.readChunkFile(id);
+  }
+
+  async readSlice(start: number, len: number): Promise<string> {
+    if (len <= 0) return "";
+
+    const first = Math.floor(start / CHUNK_SIZE);
+    const last = Math.floor((start + len - 1) / CHUNK_SIZE);
+
+    let blob = "";
+    for (let id = first; id <= last; id++) {
+      blob += await this.readChunk(id);
+    }
+
+    const offset = start - first * CHUNK_SIZE;
+    return blob.slice(offset, offset + len);
+  }
+
+  chunkCount() {
+    return this.workingChunkId + (this.workingChunk.length ? 1 : 0);
+  }
+
+  /** Replace a finished chunk wholesale (used by repair tooling). */
+  async writeChunk(id: number, text: string): Promise<void> {
+    if (id >= this.workingChunkId) throw new Error(`Chunk ${id} is not finished`);
+    if (text.length !== CHUNK_SIZE) throw new Error(`Chunk ${id} must be ${CHUNK_SIZE} chars`);
+
+    await this.serialize(() => this.seal(id, text));
+    logger.info({ chunkId: id }, 'Chunk rewritten');
+  }
+
+  async reencodeChunk(id: number): Promise<boolean> {
+    if (id >= this.workingChunkId) throw new Error(`Chunk ${id} is not finished`);
+
+    const data = await readBytesIfExists(this.binPath(id));
+    if (data && chunkCodecVersion(data) === CHUNK_CODEC_VERSION) {
+      await removeIfExists(this.textPath(id));
+      return false;
+    }
+
+    const text = data ? decodeChunk(data) : await readIfExists(this.textPath(id));
+    if (text === undefined) return false;
+
+    await this.serialize(() => this.seal(id, text));
+    return true;
+  }
+
+  /**
+   * Cut the stream back to `cursor` (used by restore tooling). The kept
+   * part of its chunk goes back to a working .txt before the cursor
+   * moves, and later files only go after it, so a crash at any step
+   * opens as either the old stream or the rewound one.
+   */
+  async rewind(cursor: number): Promise<void> {
+    await this.persist();
+    checkRewind(cursor, this._cursor);
+    const previous = this._cursor;
+
+    await this.serialize(async () => {
+      const id = Math.floor(cursor / CHUNK_SIZE);
+      const text = (await this.readChunk(id)).slice(0, cursor - id * CHUNK_SIZE);
+      await replaceDurable(this.textPath(id), text);
+
+      const updatedAt = Date.now();
+      const state = this.cursorStateProvider?.();
+      await this.writeMeta(CURSOR, state ? { index: cursor, updatedAt, state } : { index: cursor, updatedAt });
+      this.workingChunkId = id;
+      this.workingChunk = text;
+      this._cursor = this.writtenTo = cursor;
+      this._persistedAt = updatedAt;
+      this._cursorState = state;
+
+      for (const file of await fs.readdir(path.join(this.dir, CHUNKS))) {
+        const match = /^chunk_(\d+)\.(bin|txt)$/.exec(file);
+        if (match && (Number(match[1]) > id || (Number(match[1]) === id && match[2] === "bin"))) {
+          await removeIfExists(path.join(this.dir, CHUNKS, file));
+        }
+      }
+    });
+    if (cursor < previous) logger.warn({ dir: this.dir, from: previous, cursor }, 'Stream rewound');
+  }
+
+  /* ---------- meta ------------------------------------------- */
+
+  async readMeta<T extends object>(key: string): Promise<T | undefined> {
+    const text = await readIfExists(this.metaPath(key));
+    return text === undefined ? undefined : JSON.parse(text) as T;
+  }
+
+  async writeMeta(key: string, value: object): Promise<void> {
+    await replaceDurable(this.metaPath(key), JSON.stringify(value));
+    logger.debug({ key }, 'Meta document written');
+  }
+
+  /* ---------- Utilities --------------------------------------- */
+
+  /** Working chunk, or a full one not sealed yet. */
+  private textPath(id: number) {
+    return path.join(this.dir, CHUNKS, `chunk_${id}.txt`);
+  }
+
+  /** Sealed (encoded) chunk. */
+  private binPath(id: number) {
+    return path.join(this.dir, CHUNKS, `chunk_${id}.bin`);
+  }
+
+  private metaPath(key: string) {
+    return path.join(this.dir, META, `${key}.json`);
+  }
+
+  private async readChunkFile(id: number): Promise<string> {
+    const data = await readBytesIfExists(this.binPath(id));
+    if (data) return decodeChunk(data);
+    return await readIfExists(this.textPath(id)) ?? "";
+  }
+
+  /** Write the encoded chunk, then drop its text file. */
+  private async seal(id: number, text: string): Promise<void> {
+    await replaceDurable(this.binPath(id), encodeChunk(text, this.codec));
+    await removeIfExists(this.textPath(id));
+  }
+
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.writes.then(task);
+    this.writes = run.catch(() => {});
+    return run;
+  }
+
+  /* ---------- Cleanup ----------------------------------------- */
+
+  async close({ flush = true }: CloseOptions = {}): Promise<void> {
+    clearInterval(this.cursorTimer);
+    if (flush) await this.flushCursor();
+    await this.writes;
+    logger.info({ dir: this.dir, finalCursor: this._cursor }, 'FileChunkStore closed');
+  }
+}
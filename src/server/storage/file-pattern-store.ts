@@ -0,0 +1,33 @@
+import path from "node:path";
+import type { PatternHit } from "../core/patterns";
+import { furthestEnd } from "./batched-hit-store";
+import { HitLog } from "./hit-log";
+import { BatchedPatternStore, patternKey } from "./pattern-store";
+
+const PATTERNS_LOG = "patterns.jsonl";
+
+/** Pattern hits of the file backend: `<dir>/patterns.jsonl`, like FileWordStore. */
+export class FilePatternStore extends BatchedPatternStore {
+  private readonly log: HitLog<PatternHit>;
+
+  /** Pattern hits of `namespace` under `baseDir`. */
+  constructor(baseDir: string, namespace: string = "") {
+    super();
+    this.log = new HitLog(path.join(baseDir, namespace, PATTERNS_LOG), patternKey);
+  }
+
+  async loadHits(): Promise<PatternHit[]> {
+    const state = await this.log.load();
+    this.restorePosition(state.persistedTo ?? furthestEnd(state.hits.values()));
+    return [...state.hits.values()].sort((a, b) => a.start - b.start);
+  }
+
+  protected async readPosition(): Promise<number> {
+    const state = await this.log.load();
+    return state.persistedTo ?? furthestEnd(state.hits.values());
+  }
+
+  protected async write(stale: PatternHit[], fresh: PatternHit[], persistedTo: number): Promise<void> {
+    await this.log.append(stale, fresh, persistedTo);
+  }
+}
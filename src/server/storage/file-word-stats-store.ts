@@ -0,0 +1,76 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { WordStats } from "../core/leaderboards";
+import { readIfExists, replaceDurable } from "./durable-file";
+import type { WordStatsStore } from "./word-stats-store";
+
+const WORD_STATS_FILE = "word-stats.json";
+
+/** Contents of `word-stats.json`; older files hold just the array. */
+interface WordStatsFile {
+  countedTo?: number;
+  stats: WordStats[];
+}
+
+/**
+ *  Leaderboard stats of the file backend: `<dir>/word-stats.json`, one
+ *  object rewritten atomically on every save. Saves are already batched
+ *  by Leaderboards and cover distinct words only, so the file stays small.
+ */
+export class FileWordStatsStore implements WordStatsStore {
+  private readonly file: string;
+  private stats?: Map<string, WordStats>;
+  private countedTo?: number;
+  /** Saves run one at a time so a slow rewrite can't land after a newer one. */
+  private writes: Promise<void> = Promise.resolve();
+
+  /** Stats of `namespace` under `baseDir`. */
+  constructor(baseDir: string, namespace: string = "") {
+    this.file = path.join(baseDir, namespace, WORD_STATS_FILE);
+  }
+
+  async loadAll(): Promise<WordStats[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async loadCountedTo(): Promise<number | undefined> {
+    await this.load();
+    return this.countedTo;
+  }
+
+  async save(stats: WordStats[], countedTo?: number): Promise<void> {
+    const all = await this.load();
+    for (const s of stats) all.set(s.word, { ...s });
+    this.countedTo = countedTo;
+    await this.persist();
+  }
+
+  async replaceAll(stats: WordStats[], countedTo?: number): Promise<void> {
+    this.stats = new Map(stats.map(s => [s.word, { ...s }]));
+    this.countedTo = countedTo;
+    await this.persist();
+  }
+
+  private async load(): Promise<Map<string, WordStats>> {
+    if (!this.stats) {
+      const text = await readIfExists(this.file);
+      const parsed = text === undefined ? [] : JSON.parse(text) as WordStatsFile | WordStats[];
+      const { countedTo, stats } = Array.isArray(parsed) ? { countedTo: undefined, stats: parsed } : parsed;
+      if (!this.stats) {
+        this.stats = new Map(stats.map(s => [s.word, s]));
+        this.countedTo = countedTo;
+      }
+    }
+    return this.stats;
+  }
+
+  private persist(): Promise<void> {
+    const run = this.writes.then(async () => {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      const file: WordStatsFile = { countedTo: this.countedTo, stats: [...this.stats!.values()] };
+      await replaceDurable(this.file, JSON.stringify(file));
+    });
+    this.writes = run.catch(() => {});
+    return run;
+  }
+}
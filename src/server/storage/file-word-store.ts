@@ -0,0 +1,56 @@
+import path from "node:path";
+import type { WordHit } from "../core/word-detector";
+import { furthestEnd } from "./batched-hit-store";
+import { HitLog } from "./hit-log";
+import { BatchedWordStore, wordKey } from "./word-store";
+
+const WORDS_LOG = "words.jsonl";
+
+/**
+ *  Words of the file backend: `<dir>/words.jsonl`, next to the chunk and
+ *  meta directories. The log is replayed into memory on first use and
+ *  every batch is appended (and fsync'd) together with its position.
+ */
+export class FileWordStore extends BatchedWordStore {
+  private readonly log: HitLog<WordHit>;
+  private loaded?: Promise<Map<string, WordHit>>;
+
+  /** Words of `namespace` under `baseDir`. */
+  constructor(baseDir: string, namespace: string = "") {
+    super();
+    this.log = new HitLog(path.join(baseDir, namespace, WORDS_LOG), wordKey);
+  }
+
+  async loadWords(): Promise<WordHit[]> {
+    return this.sorted((await this.words()).values());
+  }
+
+  async loadRange(start: number, end: number): Promise<WordHit[]> {
+    const words = [...(await this.words()).values()];
+    return this.sorted(words.filter(hit => hit.start >= start && hit.start < end));
+  }
+
+  protected async readPosition(): Promise<number> {
+    await this.words();
+    return this.persistedTo;
+  }
+
+  protected async write(stale: WordHit[], fresh: WordHit[], persistedTo: number): Promise<void> {
+    const words = await this.words();
+    await this.log.append(stale, fresh, persistedTo);
+    for (const hit of stale) words.delete(wordKey(hit));
+    for (const hit of fresh) words.set(wordKey(hit), { ...hit });
+  }
+
+  private words(): Promise<Map<string, WordHit>> {
+    this.loaded ??= this.log.load().then(state => {
+      this.restorePosition(state.persistedTo ?? furthestEnd(state.hits.values()));
+      return state.hits;
+    });
+    return this.loaded;
+  }
+
+  private sorted(hits: Iterable<WordHit>): WordHit[] {
+    return [...hits].map(hit => ({ ...hit })).sort((a, b) => a.start - b.start || a.len - b.len);
+  }
+}
@@ -1,11 +1,25 @@
+import fs from "node:fs";
 import admin from "firebase-admin";
-import serviceAccount
-  from "./typewriting-monkey-firebase-admin.json";
 
-if (!admin.apps.length) {
-  admin.initializeApp({
-    credential: admin.credential.cert(serviceAccount as admin.ServiceAccount),
-  });
-}
+/** Service account used unless FIREBASE_SERVICE_ACCOUNT points elsewhere. */
+const DEFAULT_SERVICE_ACCOUNT = new URL("./typewriting-monkey-firebase-admin.json", import.meta.url);
+
+let firestore: admin.firestore.Firestore | undefined;
 
-export const db = admin.firestore();
+/**
+ * The Firestore client, initialized on first use so that processes using
+ * another storage backend never need the credentials.
+ */
+export function db(): admin.firestore.Firestore {
+  if (firestore) return firestore;
+
+  if (!admin.apps.length) {
+    const file = process.env.FIREBASE_SERVICE_ACCOUNT ?? DEFAULT_SERVICE_ACCOUNT;
+    const serviceAccount = JSON.parse(fs.readFileSync(file, "utf8"));
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount as admin.ServiceAccount),
+    });
+  }
+  firestore = admin.firestore();
+  return firestore;
+}
@@ -1,19 +1,29 @@
 import { db } from "./firebase";
-import { CHUNK_SIZE, type ChunkStore } from "./chunk-store";
+import { CHUNK_SIZE, checkRewind, type ChunkStore, type CloseOptions } from "./chunk-store";
+import { ChunkWal } from "./chunk-wal";
+import {
+  CHUNK_CODEC_VERSION, chunkCodecVersion, decodeChunk, encodeChunk, type ChunkCodecOptions,
+} from "./chunk-codec";
 import { storeLogger as logger, logError, logPerformance } from "../utils/logger";
 
 /* ────────────────────────────────────────────────────────────── */
 /*  Firestore collection layout                                   */
 /*    chunks/                                                     */
-/*      ├─ chunk_0         { text: "..." }                        */
-/*      ├─ chunk_1         { text: "..." }                        */
+/*      ├─ chunk_0         { data: <bytes> }  (chunk-codec.ts)    */
+/*      ├─ chunk_1         { text: "..." }    (before the codec)  */
 /*      └─ …                                                      */
 /*    meta/                                                       */
-/*      ├─ cursor          { index: 0 }                           */
+/*      ├─ cursor          { index: 0, updatedAt: <ms>, state? }  */
+/*      ├─ generator       { seed, algorithm, alphabet }          */
 /*    words/
 /*      ├─ word_123_3      { start: 123, len:3, word: "cat", timestamp: ... }
 /*      └─…
 /*  Only COMPLETED chunks are stored; the hot buffer lives in RAM */
+/*  (and, when a WAL file is given, in a local write-ahead log    */
+/*  until Firestore has it; see chunk-wal.ts)                     */
+/*                                                                */
+/*  Non-default channels get the same layout under a namespace:   */
+/*    channels/<id>/chunks, channels/<id>/meta, channels/<id>/words */
 /* ────────────────────────────────────────────────────────────── */
 
 const CHUNKS = "chunks";
@@ -21,6 +31,19 @@ const META = "meta";
 const CURSOR = "cursor";
 /** How often (ms) to persist the cursor to Firestore. */
 const CURSOR_UPDATE_INTERVAL = 2_000;
+const MAX_BATCH_WRITES = 500; // Firestore limit per batch
+
+/** Chunk document: encoded bytes, or `text` if written before the codec. */
+interface ChunkDocument {
+  data?: Uint8Array;
+  text?: string;
+}
+
+export interface FirestoreChunkStoreOptions {
+  /** Local write-ahead log for the hot chunk (see chunk-wal.ts). */
+  walFile?: string;
+  codec?: ChunkCodecOptions;
+}
 
 /** Tiny (32‑entry) LRU cache so repeated reads stay local & fast. */
 class LRUCache {
@@ -78,10 +101,21 @@ class LRUCache {
 /* ────────────────────────────────────────────────────────────── */
 
 export class FirestoreChunkStore implements ChunkStore {
+  /** Collection path prefix ("" for the default channel). */
+  private readonly namespace: string;
+  private readonly codec: ChunkCodecOptions;
+
   /** Currently building chunk (lives only in RAM). */
   private workingChunk = "";
   private workingChunkId = 0;
   private _cursor = 0;
+  private _persistedAt?: number;
+  private _cursorState?: object;
+  private cursorStateProvider?: () => object;
+  private flushListener?: (chunkId: number, text: string) => void;
+
+  /** Local log of accepted chars Firestore doesn't have yet. */
+  private wal?: ChunkWal;
 
   /** finished‑chunk cache */
   private cache = new LRUCache();
@@ -99,26 +133,60 @@ export class FirestoreChunkStore implements ChunkStore {
     return this._cursor;
   }
 
+  /** When the cursor doc was last committed (from Firestore on boot). */
+  get persistedAt() {
+    return this._persistedAt;
+  }
+
+  /** Detector state committed with the cursor (from Firestore on boot). */
+  get cursorState() {
+    return this._cursorState;
+  }
+
+  setCursorState(provider: (() => object) | undefined): void {
+    this.cursorStateProvider = provider;
+  }
+
+  setFlushListener(listener: ((chunkId: number, text: string) => void) | undefined): void {
+    this.flushListener = listener;
+  }
+
   /* ---------- factory: make sure we know where we left off ----- */
-  constructor() {
+  constructor(namespace: string = "", codec: ChunkCodecOptions = {}) {
+    this.namespace = namespace;
+    this.codec = codec;
+
     // Kick off a background timer that flushes the cursor
     this.cursorTimer = setInterval(() => {
       this.flushCursor().catch(err => logError(logger, err, { context: 'cursor-flush' }));
     }, CURSOR_UPDATE_INTERVAL);
     
     logger.info({
+      namespace,
       cursorUpdateInterval: CURSOR_UPDATE_INTERVAL,
       cacheSize: 32,
     }, 'FirestoreChunkStore constructed');
   }
 
-  static async create(): Promise<FirestoreChunkStore> {
+  /**
+   * Load the cursor and working chunk. With a `walFile`, characters the
+   * last process logged but never committed are replayed on top and
+   * committed before the store is handed out.
+   */
+  static async create(
+    namespace: string = "",
+    options: FirestoreChunkStoreOptions = {},
+  ): Promise<FirestoreChunkStore> {
     const startTime = Date.now();
-    const self = new FirestoreChunkStore();
+    const self = new FirestoreChunkStore(namespace, options.codec);
 
     try {
-      const snap = await db.collection(META).doc(CURSOR).get();
+      const snap = await self.collection(META).doc(CURSOR).get();
       self._cursor = snap.exists ? (snap.data()!.index as number) : 0;
+      self._persistedAt = snap.exists
+        ? (snap.data()!.updatedAt as number | undefined) ?? snap.updateTime?.toMillis()
+        : undefined;
+      self._cursorState = snap.exists ? (snap.data()!.state as object | undefined) : undefined;
       self.workingChunkId = Math.floor(self._cursor / CHUNK_SIZE);
 
       logger.info({
@@ -127,13 +195,13 @@ export class FirestoreChunkStore implements ChunkStore {
         cursorExists: snap.exists,
       }, 'Loaded cursor from Firestore');
 
-      const wipChunk = await db
+      const wipChunk = await self
         .collection(CHUNKS)
         .doc(`chunk_${self.workingChunkId}`)
         .get();
 
       if (wipChunk.exists) {
-        self.workingChunk = wipChunk.data()!.text as string;
+        self.workingChunk = self.decode(wipChunk.data() as ChunkDocument);
         
         logger.info({
           workingChunkId: self.workingChunkId,
@@ -149,6 +217,8 @@ export class FirestoreChunkStore implements ChunkStore {
         }
       }
 
+      if (options.walFile) await self.attachWal(options.walFile);
+
       logPerformance(logger, 'firestore-init', startTime, {
         cursor: self._cursor,
         workingChunkId: self.workingChunkId,
@@ -165,6 +235,7 @@ export class FirestoreChunkStore implements ChunkStore {
 
   /** Append a single character and return its global index. */
   async append(ch: string): Promise<number> {
+    await this.wal?.append(this._cursor, ch);
     const idx = this._cursor++;
     this.workingChunk += ch;
     this.totalWrites++;
@@ -186,29 +257,66 @@ export class FirestoreChunkStore implements ChunkStore {
     return idx;
   }
 
+  /**
+   * Append a run of characters and return the index of the first one.
+   * Every chunk the run fills is flushed (chunk + cursor in one batch)
+   * before the rest of the run goes into the next working chunk.
+   */
+  async appendMany(text: string): Promise<number> {
+    await this.wal?.append(this._cursor, text);
+    const start = this._cursor;
+    let offset = 0;
+
+    while (offset < text.length) {
+      const take = Math.min(CHUNK_SIZE - this.workingChunk.length, text.length - offset);
+      this.workingChunk += text.slice(offset, offset + take);
+      this._cursor += take;
+      offset += take;
+      this.cursorDirty = true;
+
+      if (this.workingChunk.length === CHUNK_SIZE) {
+        await this.flush();
+      }
+    }
+
+    this.totalWrites += text.length;
+    logger.trace({
+      start,
+      length: text.length,
+      workingChunkLength: this.workingChunk.length,
+    }, 'Characters appended');
+
+    this.logStatsIfNeeded();
+    return start;
+  }
+
   /** Persist the current cursor and working chunk */
   private async flushCursor(): Promise<void> {
     if (!this.cursorDirty) return;
 
     try {
-      const batch = db.batch();
+      const batch = db().batch();
 
-      const chunkRef = db
+      const chunkRef = this
         .collection(CHUNKS)
         .doc(`chunk_${this.workingChunkId}`);
 
-      batch.set(chunkRef, { text: this.workingChunk });
+      batch.set(chunkRef, this.encode(this.workingChunk));
 
-      const cursorRef = db
+      const cursorRef = this
         .collection(META)
         .doc(CURSOR); 
 
-      batch.set(cursorRef, { index: this._cursor });
+      const updatedAt = Date.now();
+      const doc = this.cursorDoc(updatedAt);
+      batch.set(cursorRef, doc);
 
       await batch.commit();
 
       this.cursorDirty = false;
-      
+      this._persistedAt = updatedAt;
+      this._cursorState = doc.state;
+      await this.wal?.compact(doc.index);
     } catch (error) {
       logError(logger, error, { 
         context: 'cursor-flush',
@@ -232,22 +340,28 @@ export class FirestoreChunkStore implements ChunkStore {
         size: this.workingChunk.length,
       }, 'Flushing full chunk');
 
-      const ref = db.collection(CHUNKS).doc(`chunk_${id}`);
-      const cur = db.collection(META).doc(CURSOR);
+      const ref = this.collection(CHUNKS).doc(`chunk_${id}`);
+      const cur = this.collection(META).doc(CURSOR);
 
-      const batch = db.batch();
-      batch.set(ref, { text: this.workingChunk });
-      batch.set(cur, { index: this._cursor }, { merge: true });
+      const batch = db().batch();
+      batch.set(ref, this.encode(this.workingChunk));
+      const updatedAt = Date.now();
+      const doc = this.cursorDoc(updatedAt);
+      batch.set(cur, doc, { merge: true });
 
       await batch.commit();
 
       // After successful commit
       this.cursorDirty = false;
+      this._persistedAt = updatedAt;
+      this._cursorState = doc.state;
       this.cache.set(id, this.workingChunk);
+      this.flushListener?.(id, this.workingChunk);
 
       this.workingChunkId += 1;
       this.workingChunk = "";
-      
+      await this.wal?.compact(doc.index);
+
       logPerformance(logger, 'chunk-flush', startTime, {
         chunkId: id,
       });
@@ -279,8 +393,8 @@ export class FirestoreChunkStore implements ChunkStore {
     try {
       logger.debug({ chunkId: id }, 'Fetching chunk from Firestore');
       
-      const snap = await db.collection(CHUNKS).doc(`chunk_${id}`).get();
-      const text = snap.exists ? (snap.data()!.text as string) : "";
+      const snap = await this.collection(CHUNKS).doc(`chunk_${id}`).get();
+      const text = snap.exists ? this.decode(snap.data() as ChunkDocument) : "";
       
       this.cache.set(id, text);
       
@@ -322,7 +436,133 @@ export class FirestoreChunkStore implements ChunkStore {
     return this.workingChunkId + (this.workingChunk.length ? 1 : 0);
   }
 
+  /** Replace a finished chunk wholesale (used by repair tooling). */
+  async writeChunk(id: number, text: string): Promise<void> {
+    if (id >= this.workingChunkId) throw new Error(`Chunk ${id} is not finished`);
+    if (text.length !== CHUNK_SIZE) throw new Error(`Chunk ${id} must be ${CHUNK_SIZE} chars`);
+
+    try {
+      await this.collection(CHUNKS).doc(`chunk_${id}`).set(this.encode(text));
+      this.cache.set(id, text);
+      logger.info({ chunkId: id }, 'Chunk rewritten');
+    } catch (error) {
+      logError(logger, error, { context: 'chunk-write', chunkId: id });
+      throw error;
+    }
+  }
+
+  async reencodeChunk(id: number): Promise<boolean> {
+    if (id >= this.workingChunkId) throw new Error(`Chunk ${id} is not finished`);
+
+    const ref = this.collection(CHUNKS).doc(`chunk_${id}`);
+    const snap = await ref.get();
+    if (!snap.exists) return false;
+
+    const doc = snap.data() as ChunkDocument;
+    if (doc.data && chunkCodecVersion(doc.data) === CHUNK_CODEC_VERSION) return false;
+
+    // set() without merge, so a legacy `text` field goes away
+    await ref.set(this.encode(this.decode(doc)));
+    return true;
+  }
+
+  /**
+   * Cut the stream back to `cursor` (used by restore tooling). The WAL is
+   * cleared first so nothing past `cursor` can be replayed, then the kept
+   * part of its chunk is committed together with the cursor; chunk
+   * documents past it are deleted last (readers never look beyond the
+   * cursor, and later flushes overwrite any a crash leaves behind).
+   */
+  async rewind(cursor: number): Promise<void> {
+    checkRewind(cursor, this._cursor);
+    const previous = this._cursor;
+
+    const id = Math.floor(cursor / CHUNK_SIZE);
+    const text = (await this.readChunk(id)).slice(0, cursor - id * CHUNK_SIZE);
+    const lastId = this.workingChunkId;
+    await this.wal?.reset(cursor);
+
+    const batch = db().batch();
+    batch.set(this.collection(CHUNKS).doc(`chunk_${id}`), this.encode(text));
+    const updatedAt = Date.now();
+    const doc = this.cursorDoc(updatedAt, cursor);
+    batch.set(this.collection(META).doc(CURSOR), doc);
+    await batch.commit();
+
+    this.workingChunkId = id;
+    this.workingChunk = text;
+    this._cursor = cursor;
+    this.cursorDirty = false;
+    this._persistedAt = updatedAt;
+    this._cursorState = doc.state;
+    this.cache = new LRUCache();
+
+    for (let from = id + 1; from <= lastId; from += MAX_BATCH_WRITES) {
+      const deletes = db().batch();
+      for (let chunkId = from; chunkId <= Math.min(lastId, from + MAX_BATCH_WRITES - 1); chunkId++) {
+        deletes.delete(this.collection(CHUNKS).doc(`chunk_${chunkId}`));
+      }
+      await deletes.commit();
+    }
+    if (cursor < previous) {
+      logger.warn({ namespace: this.namespace, from: previous, cursor, deletedChunks: lastId - id }, 'Stream rewound');
+    }
+  }
+
+  /* ---------- meta ------------------------------------------- */
+
+  async readMeta<T extends object>(key: string): Promise<T | undefined> {
+    const snap = await this.collection(META).doc(key).get();
+    return snap.exists ? (snap.data() as T) : undefined;
+  }
+
+  async writeMeta(key: string, value: object): Promise<void> {
+    await this.collection(META).doc(key).set(value);
+    logger.debug({ key }, 'Meta document written');
+  }
+
   /* ---------- Utilities --------------------------------------- */
+
+  /** Replay the WAL's uncommitted tail, commit it, then start logging. */
+  private async attachWal(walFile: string) {
+    const wal = await ChunkWal.open(walFile);
+    const tail = wal.tail(this._cursor);
+
+    if (tail === undefined) {
+      // The gap can't be filled, and appends at the cursor would never line up with the log
+      logger.error({ walFile, cursor: this._cursor, walStart: wal.start }, 'WAL starts after the stored cursor; discarding it');
+      await wal.reset(this._cursor);
+    } else {
+      if (tail) {
+        await this.appendMany(tail);
+        await this.flushCursor();
+        logger.warn({ walFile, recovered: tail.length, cursor: this._cursor }, 'Recovered characters from WAL');
+      }
+      await wal.compact(this._cursor);
+    }
+    this.wal = wal;
+  }
+
+  private encode(text: string): ChunkDocument {
+    return { data: encodeChunk(text, this.codec) };
+  }
+
+  private decode(doc: ChunkDocument): string {
+    return doc.data ? decodeChunk(doc.data) : doc.text ?? "";
+  }
+
+  /** Cursor document, with the owner's state when a provider is set. */
+  private cursorDoc(
+    updatedAt: number,
+    index: number = this._cursor,
+  ): { index: number; updatedAt: number; state?: object } {
+    const state = this.cursorStateProvider?.();
+    return state ? { index, updatedAt, state } : { index, updatedAt };
+  }
+
+  private collection(name: string) {
+    return db().collection(this.namespace + name);
+  }
   
   private logStatsIfNeeded() {
     if (Date.now() - this.lastStatsLog > 60_000) {
@@ -342,10 +582,11 @@ export class FirestoreChunkStore implements ChunkStore {
 
   /* ---------- Cleanup ----------------------------------------- */
 
-  async close(): Promise<void> {
+  async close({ flush = true }: CloseOptions = {}): Promise<void> {
     logger.info('Closing FirestoreChunkStore');
     clearInterval(this.cursorTimer);
-    await this.flushCursor();
+    if (flush) await this.flushCursor();
+    await this.wal?.close();
     logger.info({
       finalCursor: this._cursor,
       finalChunks: this.chunkCount(),
@@ -0,0 +1,88 @@
+import { db } from "./firebase";
+import type { PatternHit } from "../core/patterns";
+import { Timestamp } from "firebase-admin/firestore";
+import { furthestEnd } from "./batched-hit-store";
+import { BatchedPatternStore, PATTERNS_META_KEY, patternKey, type PatternsMeta } from "./pattern-store";
+
+const PATTERNS_COLLECTION = "patterns";
+const META_COLLECTION = "meta";
+const MAX_BATCH_WRITES = 500; // Firestore limit per batch
+
+interface PatternDocument extends PatternHit {
+  timestamp: Timestamp;
+}
+
+/**
+ * Pattern plugin hits, one document per hit, next to the `words`
+ * collection; the persisted position lives in `meta/patterns`.
+ */
+export class FirestorePatternStore extends BatchedPatternStore {
+  /** Collection path prefix ("" for the default channel). */
+  private readonly namespace: string;
+
+  constructor(namespace: string = "") {
+    super();
+    this.namespace = namespace;
+  }
+
+  /** Load every persisted hit, ordered by start. */
+  async loadHits(): Promise<PatternHit[]> {
+    const [snapshot, meta] = await Promise.all([
+      db().collection(this.namespace + PATTERNS_COLLECTION).orderBy("start", "asc").get(),
+      this.metaRef().get(),
+    ]);
+
+    const hits = snapshot.docs.map(doc => {
+      const { plugin, start, len, text } = doc.data() as PatternDocument;
+      return { plugin, start, len, text };
+    });
+
+    this.restorePosition(meta.exists
+      ? (meta.data() as PatternsMeta).lastPersistedPosition
+      : furthestEnd(hits));
+    return hits;
+  }
+
+  protected async readPosition(): Promise<number> {
+    const meta = await this.metaRef().get();
+    if (meta.exists) return (meta.data() as PatternsMeta).lastPersistedPosition;
+    await this.loadHits();
+    return this.persistedTo;
+  }
+
+  /** `stale` is only non-empty when restore tooling replaces hits. */
+  protected async write(stale: PatternHit[], fresh: PatternHit[], persistedTo: number): Promise<void> {
+    const keep = new Set(fresh.map(patternKey));
+    const now = Timestamp.now();
+    let batch = db().batch();
+    let writes = 0;
+
+    const written = async () => {
+      if (++writes % MAX_BATCH_WRITES === 0) {
+        await batch.commit();
+        batch = db().batch();
+      }
+    };
+
+    for (const hit of stale) {
+      if (keep.has(patternKey(hit))) continue;
+      batch.delete(this.ref(hit));
+      await written();
+    }
+    for (const hit of fresh) {
+      batch.set(this.ref(hit), { ...hit, timestamp: now } satisfies PatternDocument);
+      await written();
+    }
+
+    batch.set(this.metaRef(), { lastPersistedPosition: persistedTo, updatedAt: Date.now() } satisfies PatternsMeta);
+    await batch.commit();
+  }
+
+  private metaRef() {
+    return db().collection(this.namespace + META_COLLECTION).doc(PATTERNS_META_KEY);
+  }
+
+  private ref(hit: PatternHit) {
+    return db().collection(this.namespace + PATTERNS_COLLECTION).doc(patternKey(hit));
+  }
+}
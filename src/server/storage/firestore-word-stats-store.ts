@@ -0,0 +1,72 @@
+import { db } from "./firebase";
+import type { WordStats } from "../core/leaderboards";
+import type { WordStatsStore } from "./word-stats-store";
+
+const WORD_STATS_COLLECTION = "word-stats";
+const META_COLLECTION = "meta";
+/** `meta` document holding how far the stats count. */
+const WORD_STATS_META_KEY = "word-stats";
+const MAX_BATCH_WRITES = 500; // Firestore limit per batch
+
+/**
+ * Per-word leaderboard stats, one document per distinct word, stored next
+ * to the `words` collection of the same channel. How far they count lives
+ * in `meta/word-stats`, written in the last batch of every save.
+ */
+export class FirestoreWordStatsStore implements WordStatsStore {
+  /** Collection path prefix ("" for the default channel). */
+  private readonly namespace: string;
+
+  constructor(namespace: string = "") {
+    this.namespace = namespace;
+  }
+
+  async loadAll(): Promise<WordStats[]> {
+    const snapshot = await db().collection(this.namespace + WORD_STATS_COLLECTION).get();
+    return snapshot.docs.map(doc => doc.data() as WordStats);
+  }
+
+  async loadCountedTo(): Promise<number | undefined> {
+    const snap = await this.metaRef().get();
+    return snap.exists ? (snap.data() as { countedTo: number }).countedTo : undefined;
+  }
+
+  /** Upsert the given words' stats; no `countedTo` deletes the meta document. */
+  async save(stats: WordStats[], countedTo?: number): Promise<void> {
+    // Leave room in the last batch for the meta document
+    let i = 0;
+    for (; stats.length - i >= MAX_BATCH_WRITES; i += MAX_BATCH_WRITES) {
+      const batch = db().batch();
+      for (const s of stats.slice(i, i + MAX_BATCH_WRITES)) batch.set(this.ref(s.word), s);
+      await batch.commit();
+    }
+    const batch = db().batch();
+    for (const s of stats.slice(i)) batch.set(this.ref(s.word), s);
+    if (countedTo === undefined) batch.delete(this.metaRef());
+    else batch.set(this.metaRef(), { countedTo, updatedAt: Date.now() });
+    await batch.commit();
+  }
+
+  /** Make the collection hold exactly `stats`. */
+  async replaceAll(stats: WordStats[], countedTo?: number): Promise<void> {
+    const keep = new Set(stats.map(s => this.ref(s.word).id));
+    const existing = await db().collection(this.namespace + WORD_STATS_COLLECTION).select().get();
+    const stale = existing.docs.filter(doc => !keep.has(doc.id));
+
+    for (let i = 0; i < stale.length; i += MAX_BATCH_WRITES) {
+      const batch = db().batch();
+      for (const doc of stale.slice(i, i + MAX_BATCH_WRITES)) batch.delete(doc.ref);
+      await batch.commit();
+    }
+    await this.save(stats, countedTo);
+  }
+
+  private metaRef() {
+    return db().collection(this.namespace + META_COLLECTION).doc(WORD_STATS_META_KEY);
+  }
+
+  /** Words from custom dictionaries may contain `/`, which Firestore IDs can't. */
+  private ref(word: string) {
+    return db().collection(this.namespace + WORD_STATS_COLLECTION).doc(encodeURIComponent(word));
+  }
+}
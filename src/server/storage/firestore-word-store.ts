@@ -0,0 +1,133 @@
+import { db } from "./firebase";
+import type { WordHit, WordHitKind } from "../core/word-detector";
+import { DEFAULT_DICTIONARY } from "../core/dictionary";
+import { Timestamp } from "firebase-admin/firestore";
+import { furthestEnd } from "./batched-hit-store";
+import { BatchedWordStore, WORDS_META_KEY, wordKey, type WordsMeta } from "./word-store";
+
+const WORDS_COLLECTION = "words";
+const META_COLLECTION = "meta";
+const MAX_BATCH_WRITES = 500; // Firestore limit per batch
+
+interface WordDocument {
+  start: number;
+  len: number;
+  word: string;
+  /** Absent on words stored before nested hits existed (= primary). */
+  kind?: WordHitKind;
+  /** Absent on words stored before dictionaries were named. */
+  dictionary?: string;
+  timestamp: Timestamp;
+}
+
+/**
+ * Words in the `words` collection, one document per hit, next to the
+ * channel's chunks. The persisted position lives in `meta/words` and is
+ * written in the same batch as the words it covers.
+ */
+export class FirestoreWordStore extends BatchedWordStore {
+  /** Collection path prefix ("" for the default channel). */
+  private readonly namespace: string;
+
+  constructor(namespace: string = "") {
+    super();
+    this.namespace = namespace;
+  }
+
+  /**
+   * Load all persisted words from Firestore
+   * Returns sorted array of word hits
+   */
+  async loadWords(): Promise<WordHit[]> {
+    const [snapshot, meta] = await Promise.all([
+      db().collection(this.namespace + WORDS_COLLECTION).orderBy("start", "asc").get(),
+      this.metaRef().get(),
+    ]);
+
+    const words = snapshot.docs.map(doc => this.fromDocument(doc.data() as WordDocument));
+
+    // Channels written before the position was stored start from their last word
+    this.restorePosition(meta.exists
+      ? (meta.data() as WordsMeta).lastPersistedPosition
+      : furthestEnd(words));
+
+    return words;
+  }
+
+  /** Persisted words starting in [start, end), ordered by start. */
+  async loadRange(start: number, end: number): Promise<WordHit[]> {
+    const snapshot = await db()
+      .collection(this.namespace + WORDS_COLLECTION)
+      .where("start", ">=", start)
+      .where("start", "<", end)
+      .orderBy("start", "asc")
+      .get();
+
+    return snapshot.docs.map(doc => this.fromDocument(doc.data() as WordDocument));
+  }
+
+  protected async readPosition(): Promise<number> {
+    const meta = await this.metaRef().get();
+    if (meta.exists) return (meta.data() as WordsMeta).lastPersistedPosition;
+    await this.loadWords();
+    return this.persistedTo;
+  }
+
+  protected async write(stale: WordHit[], fresh: WordHit[], persistedTo: number): Promise<void> {
+    const keep = new Set(fresh.map(wordKey));
+    const now = Timestamp.now();
+    let batch = db().batch();
+    let writes = 0;
+
+    const written = async () => {
+      if (++writes % MAX_BATCH_WRITES === 0) {
+        await batch.commit();
+        batch = db().batch();
+      }
+    };
+
+    for (const hit of stale) {
+      if (keep.has(wordKey(hit))) continue;
+      batch.delete(this.ref(hit));
+      await written();
+    }
+    for (const hit of fresh) {
+      batch.set(this.ref(hit), this.toDocument(hit, now));
+      await written();
+    }
+
+    // Last, so the position never runs ahead of committed words
+    batch.set(this.metaRef(), { lastPersistedPosition: persistedTo, updatedAt: Date.now() } satisfies WordsMeta);
+    await batch.commit();
+  }
+
+  /** Position and length make the document ID, for easy deduplication. */
+  private ref(word: WordHit) {
+    return db().collection(this.namespace + WORDS_COLLECTION).doc(wordKey(word));
+  }
+
+  private metaRef() {
+    return db().collection(this.namespace + META_COLLECTION).doc(WORDS_META_KEY);
+  }
+
+  private fromDocument(data: WordDocument): WordHit {
+    return {
+      start: data.start,
+      len: data.len,
+      word: data.word,
+      kind: data.kind ?? "primary",
+      dictionary: data.dictionary ?? DEFAULT_DICTIONARY,
+    };
+  }
+
+  private toDocument(word: WordHit, timestamp: Timestamp): WordDocument {
+    return {
+      start: word.start,
+      len: word.len,
+      word: word.word,
+      kind: word.kind,
+      dictionary: word.dictionary,
+      timestamp,
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { StreamHit } from "./batched-hit-store";
+import { appendDurable, readIfExists, replaceDurable } from "./durable-file";
+import { storeLogger as logger } from "../utils/logger";
+
+/** One line of the log. */
+type LogRecord<T> =
+  | { set: T }
+  | { delete: string }
+  | { persistedTo: number };
+
+export interface HitLogState<T> {
+  /** Live hits by key. */
+  hits: Map<string, T>;
+  /** Last recorded position, if the log has one. */
+  persistedTo?: number;
+}
+
+/**
+ * Append-only JSON-lines log behind the file backend's hit stores. Each
+ * write appends its deletes, upserts and new position and fsyncs them
+ * together; replaying the log rebuilds the live set. A line torn by a
+ * crash is dropped on load, and logs mostly made of superseded records
+ * are rewritten in place.
+ */
+export class HitLog<T extends StreamHit> {
+  private readonly file: string;
+  private readonly key: (hit: T) => string;
+
+  constructor(file: string, key: (hit: T) => string) {
+    this.file = file;
+    this.key = key;
+  }
+
+  async load(): Promise<HitLogState<T>> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const lines = (await readIfExists(this.file) ?? "").split("\n");
+    const state: HitLogState<T> = { hits: new Map() };
+
+    // Everything up to the last newline was fsync'd; a tail after it was not
+    const tail = lines.pop();
+    for (const line of lines) this.apply(state, JSON.parse(line) as LogRecord<T>);
+
+    if (tail || lines.length > 2 * state.hits.size + 64) {
+      if (tail) logger.warn({ file: this.file, dropped: tail.length }, 'Dropped torn log record');
+      await replaceDurable(this.file, this.serialize(state));
+    }
+    return state;
+  }
+
+  async append(stale: T[], fresh: T[], persistedTo: number): Promise<void> {
+    const keep = new Set(fresh.map(this.key));
+    const records: LogRecord<T>[] = [
+      ...stale.filter(hit => !keep.has(this.key(hit))).map(hit => ({ delete: this.key(hit) })),
+      ...fresh.map(hit => ({ set: hit })),
+      { persistedTo },
+    ];
+    await appendDurable(this.file, records.map(record => JSON.stringify(record) + "\n").join(""));
+  }
+
+  private apply(state: HitLogState<T>, record: LogRecord<T>) {
+    if ("set" in record) state.hits.set(this.key(record.set), record.set);
+    else if ("delete" in record) state.hits.delete(record.delete);
+    else state.persistedTo = record.persistedTo;
+  }
+
+  private serialize(state: HitLogState<T>): string {
+    const records: LogRecord<T>[] = [...state.hits.values()].map(hit => ({ set: hit }));
+    if (state.persistedTo !== undefined) records.push({ persistedTo: state.persistedTo });
+    return records.map(record => JSON.stringify(record) + "\n").join("");
+  }
+}
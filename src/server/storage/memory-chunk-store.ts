@@ -1,4 +1,4 @@
-import { CHUNK_SIZE, type ChunkStore } from "./chunk-store";
+import { CHUNK_SIZE, checkRewind, type ChunkStore } from "./chunk-store";
 
 /**
  *  Pure in-memory store — perfect for unit tests or low-traffic demos.
@@ -13,23 +13,54 @@ export class MemoryChunkStore implements ChunkStore {
   private hot = "";
   private hotId = 0;          // numerical id of the hot chunk
 
+  /** Meta documents (generator config, …) */
+  private readonly meta = new Map<string, object>();
+
   private _cursor = 0;
   get cursor() { return this._cursor; }
 
+  /** Nothing is durable here, so "persisted" means "last written". */
+  private _persistedAt?: number;
+  get persistedAt() { return this._persistedAt; }
+
+  /** Likewise the latest provider state stands in for the saved one. */
+  private cursorStateProvider?: () => object;
+  get cursorState() { return this.cursorStateProvider?.(); }
+
+  private flushListener?: (chunkId: number, text: string) => void;
+
   /* ────────────────────────────────────────────────────────── */
 
   async append(ch: string): Promise<number> {
     const idx = this._cursor++;      // index that THIS char occupies
     this.hot += ch;
+    this._persistedAt = Date.now();
 
     // When the buffer fills up → freeze it and start a new hot buffer.
     if (this.hot.length === CHUNK_SIZE) await this.flush();
     return idx;
   }
 
+  async appendMany(text: string): Promise<number> {
+    const start = this._cursor;
+    let offset = 0;
+    this._persistedAt = Date.now();
+
+    // Fill the hot buffer up to the boundary, freeze it, repeat.
+    while (offset < text.length) {
+      const take = Math.min(CHUNK_SIZE - this.hot.length, text.length - offset);
+      this.hot += text.slice(offset, offset + take);
+      this._cursor += take;
+      offset += take;
+      if (this.hot.length === CHUNK_SIZE) await this.flush();
+    }
+    return start;
+  }
+
   async flush(): Promise<void> {
     if (this.hot.length !== CHUNK_SIZE) return;        // not full → noop
     this.chunks.set(this.hotId, this.hot);             // persist to Map
+    this.flushListener?.(this.hotId, this.hot);
     this.hotId += 1;                                   // next chunk id
     this.hot = "";                                     // clear buffer
   }
@@ -60,4 +91,51 @@ export class MemoryChunkStore implements ChunkStore {
   }
 
   chunkCount() { return this.hotId + (this.hot.length ? 1 : 0); }
+
+  /** Replace a finished chunk wholesale (used by repair tooling). */
+  async writeChunk(id: number, text: string): Promise<void> {
+    if (id >= this.hotId) throw new Error(`Chunk ${id} is not finished`);
+    if (text.length !== CHUNK_SIZE) throw new Error(`Chunk ${id} must be ${CHUNK_SIZE} chars`);
+    this.chunks.set(id, text);
+  }
+
+  /** Chunks stay plain strings in RAM. */
+  async reencodeChunk(): Promise<boolean> {
+    return false;
+  }
+
+  /** Cut the stream back to `cursor` (used by restore tooling). */
+  async rewind(cursor: number): Promise<void> {
+    checkRewind(cursor, this._cursor);
+
+    const id = Math.floor(cursor / CHUNK_SIZE);
+    this.hot = (await this.readChunk(id)).slice(0, cursor - id * CHUNK_SIZE);
+    this.hotId = id;
+    for (const chunkId of [...this.chunks.keys()]) {
+      if (chunkId >= id) this.chunks.delete(chunkId);
+    }
+    this._cursor = cursor;
+    this._persistedAt = Date.now();
+  }
+
+  /* ── Meta ───────────────────────────────────────────────── */
+
+  async readMeta<T extends object>(key: string): Promise<T | undefined> {
+    const value = this.meta.get(key);
+    return value === undefined ? undefined : structuredClone(value) as T;
+  }
+
+  async writeMeta(key: string, value: object): Promise<void> {
+    this.meta.set(key, structuredClone(value));
+  }
+
+  setCursorState(provider: (() => object) | undefined): void {
+    this.cursorStateProvider = provider;
+  }
+
+  setFlushListener(listener: ((chunkId: number, text: string) => void) | undefined): void {
+    this.flushListener = listener;
+  }
+
+  async close(): Promise<void> {}
 }
@@ -0,0 +1,20 @@
+import type { PatternHit } from "../core/patterns";
+import { BatchedPatternStore, patternKey } from "./pattern-store";
+
+/** Pattern hits in a Map — for tests and offline demos. */
+export class MemoryPatternStore extends BatchedPatternStore {
+  private readonly hits = new Map<string, PatternHit>();
+
+  async loadHits(): Promise<PatternHit[]> {
+    return [...this.hits.values()].map(hit => ({ ...hit })).sort((a, b) => a.start - b.start);
+  }
+
+  protected async readPosition(): Promise<number> {
+    return 0;
+  }
+
+  protected async write(stale: PatternHit[], fresh: PatternHit[]): Promise<void> {
+    for (const hit of stale) this.hits.delete(patternKey(hit));
+    for (const hit of fresh) this.hits.set(patternKey(hit), { ...hit });
+  }
+}
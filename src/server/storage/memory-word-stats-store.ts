@@ -0,0 +1,26 @@
+import type { WordStats } from "../core/leaderboards";
+import type { WordStatsStore } from "./word-stats-store";
+
+/** Leaderboard stats in a Map — for tests and offline demos. */
+export class MemoryWordStatsStore implements WordStatsStore {
+  private readonly stats = new Map<string, WordStats>();
+  private countedTo?: number;
+
+  async loadAll(): Promise<WordStats[]> {
+    return [...this.stats.values()].map(s => ({ ...s }));
+  }
+
+  async loadCountedTo(): Promise<number | undefined> {
+    return this.countedTo;
+  }
+
+  async save(stats: WordStats[], countedTo?: number): Promise<void> {
+    for (const s of stats) this.stats.set(s.word, { ...s });
+    this.countedTo = countedTo;
+  }
+
+  async replaceAll(stats: WordStats[], countedTo?: number): Promise<void> {
+    this.stats.clear();
+    await this.save(stats, countedTo);
+  }
+}
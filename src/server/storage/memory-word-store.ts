@@ -0,0 +1,32 @@
+import type { WordHit } from "../core/word-detector";
+import { BatchedWordStore, wordKey } from "./word-store";
+
+/**
+ *  Words in a Map — for tests and offline demos. Batching still applies,
+ *  so callers see the same flush semantics as with a durable backend.
+ */
+export class MemoryWordStore extends BatchedWordStore {
+  private readonly words = new Map<string, WordHit>();
+
+  async loadWords(): Promise<WordHit[]> {
+    return this.sorted(this.words.values());
+  }
+
+  async loadRange(start: number, end: number): Promise<WordHit[]> {
+    return this.sorted([...this.words.values()].filter(hit => hit.start >= start && hit.start < end));
+  }
+
+  /** Nothing outlives the process, so there is no stored position. */
+  protected async readPosition(): Promise<number> {
+    return 0;
+  }
+
+  protected async write(stale: WordHit[], fresh: WordHit[]): Promise<void> {
+    for (const hit of stale) this.words.delete(wordKey(hit));
+    for (const hit of fresh) this.words.set(wordKey(hit), { ...hit });
+  }
+
+  private sorted(hits: Iterable<WordHit>): WordHit[] {
+    return [...hits].map(hit => ({ ...hit })).sort((a, b) => a.start - b.start || a.len - b.len);
+  }
+}
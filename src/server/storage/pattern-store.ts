@@ -0,0 +1,50 @@
+import type { PatternHit } from "../core/patterns";
+import { BatchedHitStore } from "./batched-hit-store";
+
+/** Meta key (or Firestore `meta` document) holding the persisted position. */
+export const PATTERNS_META_KEY = "patterns";
+
+export interface PatternsMeta {
+  lastPersistedPosition: number;
+  updatedAt: number;
+}
+
+/**
+ * Pattern plugin hits of one channel, kept next to its words and batched
+ * the same way. The persisted position tells the startup scanner where to
+ * resume. Implementations: FirestorePatternStore, FilePatternStore and
+ * MemoryPatternStore (the SQLite backend uses the file one).
+ */
+export interface PatternStore {
+  /** Every stored hit, ordered by start; also restores the persisted position. */
+  loadHits(): Promise<PatternHit[]>;
+  addHit(hit: PatternHit): Promise<void>;
+  /** The plugins have consumed the stream up to `position` (see WordStore). */
+  markDetected(position: number): void;
+  flush(): Promise<void>;
+  /** Swap `stale` hits for `fresh` ones (restore tooling; plugins only add). */
+  replaceHits(stale: PatternHit[], fresh: PatternHit[]): Promise<void>;
+  getLastPersistedPosition(): number;
+  loadPosition(): Promise<number>;
+  /** Move the persisted position back to `position` (restore tooling). */
+  resetPosition(position: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** The PatternStore surface on top of BatchedHitStore; backends add load and write. */
+export abstract class BatchedPatternStore extends BatchedHitStore<PatternHit> implements PatternStore {
+  abstract loadHits(): Promise<PatternHit[]>;
+
+  addHit(hit: PatternHit): Promise<void> {
+    return this.enqueue(hit);
+  }
+
+  replaceHits(stale: PatternHit[], fresh: PatternHit[]): Promise<void> {
+    return this.replace(stale, fresh);
+  }
+}
+
+/** Plugin, position and length make the key, so re-scans are idempotent. */
+export function patternKey(hit: PatternHit): string {
+  return `${hit.plugin}_${hit.start}_${hit.len}`;
+}
@@ -0,0 +1,277 @@
+import type Database from "better-sqlite3";
+import { CHUNK_SIZE, checkRewind, type ChunkStore, type CloseOptions } from "./chunk-store";
+import { openDatabase, releaseDatabase } from "./sqlite";
+import {
+  CHUNK_CODEC_VERSION, chunkCodecVersion, decodeChunk, encodeChunk, type ChunkCodecOptions,
+} from "./chunk-codec";
+import { storeLogger as logger, logError, logPerformance } from "../utils/logger";
+
+const CURSOR = "cursor";
+/** How often (ms) to persist the cursor, as FirestoreChunkStore does. */
+const CURSOR_UPDATE_INTERVAL = 2_000;
+
+interface CursorDocument {
+  index: number;
+  updatedAt: number;
+  state?: object;
+}
+
+/**
+ *  Embedded SQL store for single-node deployments (see sqlite.ts for the
+ *  schema). Mirrors FirestoreChunkStore: the working chunk lives in RAM
+ *  and is written together with the cursor in ONE transaction, every
+ *  CURSOR_UPDATE_INTERVAL and whenever the chunk fills.
+ */
+export class SqliteChunkStore implements ChunkStore {
+  private readonly db: Database.Database;
+  private readonly namespace: string;
+  private readonly codec: ChunkCodecOptions;
+
+  private workingChunk = "";
+  private workingChunkId = 0;
+  private _cursor = 0;
+  private _persistedAt?: number;
+  private _cursorState?: object;
+  private cursorStateProvider?: () => object;
+  private flushListener?: (chunkId: number, text: string) => void;
+
+  private cursorDirty = false;
+  private readonly cursorTimer: NodeJS.Timeout;
+
+  /** `text` holds the encoded BLOB, or a string if written before the codec. */
+  private readonly selectChunk: Database.Statement<[string, number], { text: string | Buffer }>;
+  private readonly upsertChunk: Database.Statement<[string, number, Buffer]>;
+  private readonly deleteChunksAfter: Database.Statement<[string, number]>;
+  private readonly selectMeta: Database.Statement<[string, string], { value: string }>;
+  private readonly upsertMeta: Database.Statement<[string, string, string]>;
+  /** Chunk + cursor, atomically. */
+  private readonly commit: Database.Transaction<(id: number, data: Buffer, cursor: CursorDocument) => void>;
+
+  get cursor() {
+    return this._cursor;
+  }
+
+  get persistedAt() {
+    return this._persistedAt;
+  }
+
+  get cursorState() {
+    return this._cursorState;
+  }
+
+  setCursorState(provider: (() => object) | undefined): void {
+    this.cursorStateProvider = provider;
+  }
+
+  setFlushListener(listener: ((chunkId: number, text: string) => void) | undefined): void {
+    this.flushListener = listener;
+  }
+
+  private constructor(db: Database.Database, namespace: string, codec: ChunkCodecOptions) {
+    this.db = db;
+    this.namespace = namespace;
+    this.codec = codec;
+
+    this.selectChunk = db.prepare("SELECT text FROM chunks WHERE namespace = ? AND id = ?");
+    this.upsertChunk = db.prepare("INSERT OR REPLACE INTO chunks (namespace, id, text) VALUES (?, ?, ?)");
+    this.deleteChunksAfter = db.prepare("DELETE FROM chunks WHERE namespace = ? AND id > ?");
+    this.selectMeta = db.prepare("SELECT value FROM meta WHERE namespace = ? AND key = ?");
+    this.upsertMeta = db.prepare("INSERT OR REPLACE INTO meta (namespace, key, value) VALUES (?, ?, ?)");
+    this.commit = db.transaction((id: number, data: Buffer, cursor: CursorDocument) => {
+      this.upsertChunk.run(this.namespace, id, data);
+      this.upsertMeta.run(this.namespace, CURSOR, JSON.stringify(cursor));
+    });
+
+    this.cursorTimer = setInterval(() => {
+      this.flushCursor().catch(err => logError(logger, err, { context: 'cursor-flush' }));
+    }, CURSOR_UPDATE_INTERVAL);
+  }
+
+  /** Open (or create) the store for `namespace` in the database at `file`. */
+  static async create(
+    file: string,
+    namespace: string = "",
+    codec: ChunkCodecOptions = {},
+  ): Promise<SqliteChunkStore> {
+    const startTime = Date.now();
+    const self = new SqliteChunkStore(openDatabase(file), namespace, codec);
+
+    const cursor = await self.readMeta<CursorDocument>(CURSOR);
+    self._cursor = cursor?.index ?? 0;
+    self._persistedAt = cursor?.updatedAt;
+    self._cursorState = cursor?.state;
+    self.workingChunkId = Math.floor(self._cursor / CHUNK_SIZE);
+    self.workingChunk = self.selectText(self.workingChunkId);
+
+    // If the chunk was already full we "roll forward"
+    if (self.workingChunk.length === CHUNK_SIZE) {
+      self.workingChunkId += 1;
+      self.workingChunk = "";
+    }
+
+    logPerformance(logger, 'sqlite-init', startTime, {
+      namespace,
+      cursor: self._cursor,
+      workingChunkId: self.workingChunkId,
+    });
+    return self;
+  }
+
+  /* ---------- writes ------------------------------------------ */
+
+  async append(ch: string): Promise<number> {
+    const idx = this._cursor++;
+    this.workingChunk += ch;
+    this.cursorDirty = true;
+
+    if (this.workingChunk.length === CHUNK_SIZE) await this.flush();
+    return idx;
+  }
+
+  async appendMany(text: string): Promise<number> {
+    const start = this._cursor;
+    let offset = 0;
+
+    while (offset < text.length) {
+      const take = Math.min(CHUNK_SIZE - this.workingChunk.length, text.length - offset);
+      this.workingChunk += text.slice(offset, offset + take);
+      this._cursor += take;
+      offset += take;
+      this.cursorDirty = true;
+
+      if (this.workingChunk.length === CHUNK_SIZE) await this.flush();
+    }
+    return start;
+  }
+
+  /** Persist the current cursor and working chunk */
+  private async flushCursor(): Promise<void> {
+    if (!this.cursorDirty) return;
+    this.commitWorkingChunk();
+  }
+
+  /** Flush when a chunk fills up */
+  async flush(): Promise<void> {
+    if (this.workingChunk.length !== CHUNK_SIZE) return;
+
+    const id = this.workingChunkId;
+    this.commitWorkingChunk();
+    this.flushListener?.(id, this.workingChunk);
+    this.workingChunkId += 1;
+    this.workingChunk = "";
+    logger.info({ chunkId: id }, 'Chunk flushed');
+  }
+
+  private commitWorkingChunk() {
+    const updatedAt = Date.now();
+    const state = this.cursorStateProvider?.();
+    const cursor: CursorDocument = state
+      ? { index: this._cursor, updatedAt, state }
+      : { index: this._cursor, updatedAt };
+
+    this.commit(this.workingChunkId, encodeChunk(this.workingChunk, this.codec), cursor);
+    this.cursorDirty = false;
+    this._persistedAt = updatedAt;
+    this._cursorState = state;
+  }
+
+  /* ---------- reads ------------------------------------------- */
+
+  async readChunk(id: number): Promise<string> {
+    if (id === this.workingChunkId) return this.workingChunk;
+    return this.selectText(id);
+  }
+
+  async readSlice(start: number, len: number): Promise<string> {
+    if (len <= 0) return "";
+
+    const first = Math.floor(start / CHUNK_SIZE);
+    const last = Math.floor((start + len - 1) / CHUNK_SIZE);
+
+    let blob = "";
+    for (let id = first; id <= last; id++) {
+      blob += await this.readChunk(id);
+    }
+
+    const offset = start - first * CHUNK_SIZE;
+    return blob.slice(offset, offset + len);
+  }
+
+  chunkCount() {
+    return this.workingChunkId + (this.workingChunk.length ? 1 : 0);
+  }
+
+  /** Replace a finished chunk wholesale (used by repair tooling). */
+  async writeChunk(id: number, text: string): Promise<void> {
+    if (id >= this.workingChunkId) throw new Error(`Chunk ${id} is not finished`);
+    if (text.length !== CHUNK_SIZE) throw new Error(`Chunk ${id} must be ${CHUNK_SIZE} chars`);
+
+    this.upsertChunk.run(this.namespace, id, encodeChunk(text, this.codec));
+    logger.info({ chunkId: id }, 'Chunk rewritten');
+  }
+
+  async reencodeChunk(id: number): Promise<boolean> {
+    if (id >= this.workingChunkId) throw new Error(`Chunk ${id} is not finished`);
+
+    const stored = this.selectChunk.get(this.namespace, id)?.text;
+    if (stored === undefined) return false;
+    if (typeof stored !== "string" && chunkCodecVersion(stored) === CHUNK_CODEC_VERSION) return false;
+
+    this.upsertChunk.run(this.namespace, id, encodeChunk(this.decode(stored), this.codec));
+    return true;
+  }
+
+  /** Cut the stream back to `cursor` (used by restore tooling), in one transaction. */
+  async rewind(cursor: number): Promise<void> {
+    checkRewind(cursor, this._cursor);
+    const previous = this._cursor;
+
+    const id = Math.floor(cursor / CHUNK_SIZE);
+    const text = (await this.readChunk(id)).slice(0, cursor - id * CHUNK_SIZE);
+    const updatedAt = Date.now();
+    const state = this.cursorStateProvider?.();
+    const doc: CursorDocument = state ? { index: cursor, updatedAt, state } : { index: cursor, updatedAt };
+    this.db.transaction(() => {
+      this.deleteChunksAfter.run(this.namespace, id);
+      this.commit(id, encodeChunk(text, this.codec), doc);
+    })();
+
+    this.workingChunkId = id;
+    this.workingChunk = text;
+    this._cursor = cursor;
+    this.cursorDirty = false;
+    this._persistedAt = updatedAt;
+    this._cursorState = state;
+    if (cursor < previous) logger.warn({ namespace: this.namespace, from: previous, cursor }, 'Stream rewound');
+  }
+
+  private selectText(id: number): string {
+    const stored = this.selectChunk.get(this.namespace, id)?.text;
+    return stored === undefined ? "" : this.decode(stored);
+  }
+
+  private decode(stored: string | Buffer): string {
+    return typeof stored === "string" ? stored : decodeChunk(stored);
+  }
+
+  /* ---------- meta ------------------------------------------- */
+
+  async readMeta<T extends object>(key: string): Promise<T | undefined> {
+    const row = this.selectMeta.get(this.namespace, key);
+    return row ? JSON.parse(row.value) as T : undefined;
+  }
+
+  async writeMeta(key: string, value: object): Promise<void> {
+    this.upsertMeta.run(this.namespace, key, JSON.stringify(value));
+    logger.debug({ key }, 'Meta document written');
+  }
+
+  /* ---------- Cleanup ----------------------------------------- */
+
+  async close({ flush = true }: CloseOptions = {}): Promise<void> {
+    clearInterval(this.cursorTimer);
+    if (flush) await this.flushCursor();
+    releaseDatabase(this.db);
+    logger.info({ namespace: this.namespace, finalCursor: this._cursor }, 'SqliteChunkStore closed');
+  }
+}
@@ -0,0 +1,91 @@
+import type Database from "better-sqlite3";
+import type { WordHit, WordHitKind } from "../core/word-detector";
+import { openDatabase, releaseDatabase } from "./sqlite";
+import { BatchedWordStore, WORDS_META_KEY, type WordsMeta } from "./word-store";
+
+interface WordRow {
+  start: number;
+  len: number;
+  word: string;
+  kind: WordHitKind;
+  dictionary: string;
+}
+
+const COLUMNS = "start, len, word, kind, dictionary";
+
+/**
+ * The `words` table of the SQLite backend. Each batch and its persisted
+ * position (a `meta` row) commit in one transaction. The channel still
+ * loads every word on boot like with the other backends; `loadRange`
+ * (re-index, snapshots, migration) reads by position without doing so.
+ */
+export class SqliteWordStore extends BatchedWordStore {
+  private readonly db: Database.Database;
+  private readonly namespace: string;
+
+  private readonly insert: Database.Statement<[string, number, number, string, WordHitKind, string, number]>;
+  private readonly remove: Database.Statement<[string, number, number]>;
+  private readonly selectMeta: Database.Statement<[string, string], { value: string }>;
+  private readonly upsertMeta: Database.Statement<[string, string, string]>;
+  private readonly commitWords: Database.Transaction<(stale: WordHit[], fresh: WordHit[], persistedTo: number) => void>;
+
+  constructor(file: string, namespace: string = "") {
+    super();
+    this.db = openDatabase(file);
+    this.namespace = namespace;
+
+    this.insert = this.db.prepare(
+      `INSERT OR REPLACE INTO words (namespace, ${COLUMNS}, detected_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.remove = this.db.prepare("DELETE FROM words WHERE namespace = ? AND start = ? AND len = ?");
+    this.selectMeta = this.db.prepare("SELECT value FROM meta WHERE namespace = ? AND key = ?");
+    this.upsertMeta = this.db.prepare("INSERT OR REPLACE INTO meta (namespace, key, value) VALUES (?, ?, ?)");
+    this.commitWords = this.db.transaction((stale: WordHit[], fresh: WordHit[], persistedTo: number) => {
+      const now = Date.now();
+      for (const hit of stale) this.remove.run(this.namespace, hit.start, hit.len);
+      for (const hit of fresh) {
+        this.insert.run(this.namespace, hit.start, hit.len, hit.word, hit.kind, hit.dictionary, now);
+      }
+      const meta: WordsMeta = { lastPersistedPosition: persistedTo, updatedAt: now };
+      this.upsertMeta.run(this.namespace, WORDS_META_KEY, JSON.stringify(meta));
+    });
+  }
+
+  /** Every stored word, ordered by start. */
+  async loadWords(): Promise<WordHit[]> {
+    this.restorePosition(await this.readPosition());
+    return this.db
+      .prepare<[string], WordRow>(`SELECT ${COLUMNS} FROM words WHERE namespace = ? ORDER BY start`)
+      .all(this.namespace);
+  }
+
+  /** Stored words starting in [start, end), ordered by start. */
+  async loadRange(start: number, end: number): Promise<WordHit[]> {
+    return this.db
+      .prepare<[string, number, number], WordRow>(
+        `SELECT ${COLUMNS} FROM words WHERE namespace = ? AND start >= ? AND start < ? ORDER BY start`,
+      )
+      .all(this.namespace, start, end);
+  }
+
+  protected async readPosition(): Promise<number> {
+    const meta = this.selectMeta.get(this.namespace, WORDS_META_KEY);
+    return meta ? (JSON.parse(meta.value) as WordsMeta).lastPersistedPosition : this.furthestEnd();
+  }
+
+  protected async write(stale: WordHit[], fresh: WordHit[], persistedTo: number): Promise<void> {
+    this.commitWords(stale, fresh, persistedTo);
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    releaseDatabase(this.db);
+  }
+
+  /** End of the furthest stored word, for databases without a stored position. */
+  private furthestEnd(): number {
+    return this.db
+      .prepare<[string], { end: number | null }>("SELECT MAX(start + len) AS end FROM words WHERE namespace = ?")
+      .get(this.namespace)!.end ?? 0;
+  }
+}
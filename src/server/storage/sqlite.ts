@@ -0,0 +1,88 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { storeLogger as logger } from "../utils/logger";
+
+/* ────────────────────────────────────────────────────────────── */
+/*  One SQLite file holds every channel; rows carry the channel's  */
+/*  namespace ("" for main, "channels/<id>/" otherwise).           */
+/*    chunks (namespace, id)          text (BLOB from chunk-codec, */
+/*                                    or TEXT if written earlier)  */
+/*    meta   (namespace, key)         value (JSON)                 */
+/*    words  (namespace, start, len)  word, kind, dictionary, …    */
+/*  Words are only read by position; the key is their index.       */
+/* ────────────────────────────────────────────────────────────── */
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS chunks (
+    namespace TEXT NOT NULL,
+    id        INTEGER NOT NULL,
+    text      TEXT NOT NULL,
+    PRIMARY KEY (namespace, id)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS meta (
+    namespace TEXT NOT NULL,
+    key       TEXT NOT NULL,
+    value     TEXT NOT NULL,
+    PRIMARY KEY (namespace, key)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS words (
+    namespace   TEXT NOT NULL,
+    start       INTEGER NOT NULL,
+    len         INTEGER NOT NULL,
+    word        TEXT NOT NULL,
+    kind        TEXT NOT NULL,
+    dictionary  TEXT NOT NULL,
+    detected_at INTEGER NOT NULL,
+    PRIMARY KEY (namespace, start, len)
+  ) WITHOUT ROWID;
+
+
+  -- Unused by any query; databases created before they were dropped still have them
+  DROP INDEX IF EXISTS words_by_word;
+  DROP INDEX IF EXISTS words_by_len;
+`;
+
+interface OpenDatabase {
+  db: Database.Database;
+  users: number;
+}
+
+const open = new Map<string, OpenDatabase>();
+
+/**
+ * Open (or reuse) the database at `file`, creating the schema. The chunk
+ * and word stores of every channel share one connection; each calls
+ * `releaseDatabase` on close and the last one closes the file.
+ */
+export function openDatabase(file: string): Database.Database {
+  const key = path.resolve(file);
+  let entry = open.get(key);
+
+  if (!entry) {
+    fs.mkdirSync(path.dirname(key), { recursive: true });
+    const db = new Database(key);
+    // WAL + NORMAL: commits are atomic and survive a process crash
+    db.pragma("journal_mode = WAL");
+    db.pragma("synchronous = NORMAL");
+    db.exec(SCHEMA);
+    entry = { db, users: 0 };
+    open.set(key, entry);
+    logger.info({ file: key }, 'SQLite database opened');
+  }
+
+  entry.users++;
+  return entry.db;
+}
+
+export function releaseDatabase(db: Database.Database): void {
+  const key = path.resolve(db.name);
+  const entry = open.get(key);
+  if (!entry || --entry.users > 0) return;
+
+  open.delete(key);
+  db.close();
+  logger.info({ file: key }, 'SQLite database closed');
+}
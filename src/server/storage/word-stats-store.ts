@@ -0,0 +1,22 @@
+import type { WordStats } from "../core/leaderboards";
+
+/**
+ * Per-word leaderboard stats of one channel, one record per distinct
+ * word. Implementations: FirestoreWordStatsStore, FileWordStatsStore and
+ * MemoryWordStatsStore (the SQLite backend uses the file one).
+ */
+export interface WordStatsStore {
+  loadAll(): Promise<WordStats[]>;
+
+  /**
+   * End of the furthest hit the stored stats count, written with them;
+   * undefined for stores saved before it was tracked (or restored ones).
+   */
+  loadCountedTo(): Promise<number | undefined>;
+
+  /** Upsert the given words' stats, which now count hits up to `countedTo`. */
+  save(stats: WordStats[], countedTo: number): Promise<void>;
+
+  /** Make the store hold exactly `stats`; no `countedTo` clears it. */
+  replaceAll(stats: WordStats[], countedTo?: number): Promise<void>;
+}
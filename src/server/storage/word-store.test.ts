@@ -0,0 +1,126 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { WordHit } from "../core/word-detector";
+import { FileWordStore } from "./file-word-store";
+import { SqliteWordStore } from "./sqlite-word-store";
+import type { WordStore } from "./word-store";
+
+/** The durable WordStores; each `create` returns a function opening the same storage. */
+interface Backend {
+  name: string;
+  create(): Promise<() => WordStore>;
+}
+
+const scratch: string[] = [];
+
+async function tempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "word-store-"));
+  scratch.push(dir);
+  return dir;
+}
+
+after(async () => {
+  for (const dir of scratch) await fs.rm(dir, { recursive: true, force: true });
+});
+
+const BACKENDS: Backend[] = [
+  {
+    name: "FileWordStore",
+    async create() {
+      const dir = await tempDir();
+      return () => new FileWordStore(dir);
+    },
+  },
+  {
+    name: "SqliteWordStore",
+    async create() {
+      const file = path.join(await tempDir(), "monkey.sqlite");
+      return () => new SqliteWordStore(file);
+    },
+  },
+];
+
+function hit(start: number, word: string): WordHit {
+  return { start, len: word.length, word, kind: "primary", dictionary: "en" };
+}
+
+for (const backend of BACKENDS) {
+  describe(backend.name, () => {
+    it("reopens with its words and position", async () => {
+      const open = await backend.create();
+      const store = open();
+      await store.loadWords();
+      store.addWord(hit(10, "cat"));
+      store.addWord(hit(40, "dog"));
+      store.markDetected(5000);
+      await store.close();
+
+      const reopened = open();
+      assert.deepEqual(await reopened.loadWords(), [hit(10, "cat"), hit(40, "dog")]);
+      assert.equal(reopened.getLastPersistedPosition(), 5000);
+      await reopened.close();
+    });
+
+    it("keeps the stored position when written without loading", async () => {
+      const open = await backend.create();
+      const store = open();
+      await store.loadWords();
+      store.markDetected(5000);
+      await store.close();
+
+      // A CLI adds a word without loading the channel's words first
+      const tool = open();
+      tool.addWord(hit(100, "bird"));
+      await tool.close();
+
+      const reopened = open();
+      assert.deepEqual(await reopened.loadWords(), [hit(100, "bird")]);
+      assert.equal(reopened.getLastPersistedPosition(), 5000);
+      await reopened.close();
+    });
+
+    it("replaces words and lowers the position only on reset", async () => {
+      const open = await backend.create();
+      const store = open();
+      await store.loadWords();
+      store.markDetected(5000);
+      await store.replaceWords([], [hit(10, "cat")]);
+      assert.equal(await store.loadPosition(), 5000);
+
+      await store.replaceWords([hit(10, "cat")], [hit(12, "tiger")]);
+      await store.resetPosition(3000);
+      await store.close();
+
+      const reopened = open();
+      assert.deepEqual(await reopened.loadWords(), [hit(12, "tiger")]);
+      assert.equal(reopened.getLastPersistedPosition(), 3000);
+      await reopened.close();
+    });
+  });
+}
+
+describe("SqliteWordStore schema", () => {
+  it("drops the word indexes older databases were created with", async () => {
+    const file = path.join(await tempDir(), "monkey.sqlite");
+    const legacy = new Database(file);
+    legacy.exec(`
+      CREATE TABLE words (namespace TEXT, start INTEGER, len INTEGER, word TEXT, kind TEXT, dictionary TEXT,
+        detected_at INTEGER, PRIMARY KEY (namespace, start, len)) WITHOUT ROWID;
+      CREATE INDEX words_by_word ON words (namespace, word, start);
+      CREATE INDEX words_by_len ON words (namespace, len, start);
+    `);
+    legacy.close();
+
+    const store = new SqliteWordStore(file);
+    await store.close();
+
+    const db = new Database(file, { readonly: true });
+    const indexes = db.prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'words'").all();
+    db.close();
+    assert.deepEqual(indexes, []);
+  });
+});
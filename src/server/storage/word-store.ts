@@ -1,130 +1,89 @@
-import { db } from "./firebase";
 import type { WordHit } from "../core/word-detector";
-import { Timestamp } from "firebase-admin/firestore";
+import { BatchedHitStore } from "./batched-hit-store";
 
-const WORDS_COLLECTION = "words";
-const WORD_BATCH_SIZE = 16; // Batch words for efficient writes
+/** Meta key (or Firestore `meta` document) holding the persisted position. */
+export const WORDS_META_KEY = "words";
 
-interface WordDocument {
-  start: number;
-  len: number;
-  word: string;
-  timestamp: Timestamp;
+export interface WordsMeta {
+  lastPersistedPosition: number;
+  updatedAt: number;
 }
 
-export class WordStore {
-  private pendingWords: WordHit[] = [];
-  private flushTimer?: NodeJS.Timeout;
-  private lastPersistedPosition = 0;
-
+/**
+ * Detected words of one channel. Words are keyed by start and length, so
+ * writing the same hit twice is harmless. Implementations:
+ *   • FirestoreWordStore – `words` collection next to the chunks
+ *   • SqliteWordStore    – `words` table of the SQLite backend
+ *   • FileWordStore      – append-only log for the file backend
+ *   • MemoryWordStore    – nothing durable (tests, demos)
+ */
+export interface WordStore {
   /**
-   * Load all persisted words from Firestore
-   * Returns sorted array of word hits
+   * Every stored word, ordered by start. Also restores the persisted
+   * position, so call it before `getLastPersistedPosition`.
    */
-  async loadWords(): Promise<WordHit[]> {
-    const snapshot = await db
-      .collection(WORDS_COLLECTION)
-      .orderBy("start", "asc")
-      .get();
-
-    const words = snapshot.docs.map(doc => {
-      const data = doc.data() as WordDocument;
-      return {
-        start: data.start,
-        len: data.len,
-        word: data.word
-      };
-    });
-
-    // Track the position of the last word we've persisted
-    if (words.length > 0) {
-      const lastWord = words[words.length - 1];
-      this.lastPersistedPosition = lastWord.start + lastWord.len;
-    }
-
-    return words;
-  }
+  loadWords(): Promise<WordHit[]>;
+
+  /** Stored words starting in [start, end), ordered by start. */
+  loadRange(start: number, end: number): Promise<WordHit[]>;
+
+  /** Queue a newly detected word; written with the next batch. */
+  addWord(hit: WordHit): Promise<void>;
 
   /**
-   * Add a newly detected word
-   * Batches writes for efficiency
+   * The detector has consumed the stream up to `position`, with every
+   * word before it queued; becomes the persisted position once written.
    */
-  async addWord(hit: WordHit): Promise<void> {
-    this.pendingWords.push(hit);
-
-    // Update our tracking of the last position
-    const endPosition = hit.start + hit.len;
-    if (endPosition > this.lastPersistedPosition) {
-      this.lastPersistedPosition = endPosition;
-    }
-
-    // If we have enough words, flush immediately
-    if (this.pendingWords.length >= WORD_BATCH_SIZE) {
-      await this.flush();
-    } else {
-      // Otherwise, set a timer to flush soon
-      this.scheduleFlush();
-    }
-  }
+  markDetected(position: number): void;
+
+  /** Write queued words now. */
+  flush(): Promise<void>;
 
   /**
-   * Schedule a flush operation in 5 seconds
-   * Resets any existing timer
+   * Swap `stale` hits for `fresh` ones, e.g. after re-indexing a range
+   * against reloaded dictionaries. Hits present in both are rewritten.
    */
-  private scheduleFlush(): void {
-    if (this.flushTimer) {
-      clearTimeout(this.flushTimer);
-    }
-    this.flushTimer = setTimeout(() => {
-      this.flush().catch(console.error);
-    }, 5000);
-  }
+  replaceWords(stale: WordHit[], fresh: WordHit[]): Promise<void>;
 
   /**
-   * Write all pending words to Firestore
+   * How far detection had got when the last batch was written. Stored
+   * alongside the words, so on boot the channel re-scans from here.
    */
-  async flush(): Promise<void> {
-    if (this.pendingWords.length === 0) return;
-
-    const batch = db.batch();
-    const now = Timestamp.now();
-
-    for (const word of this.pendingWords) {
-      // Use position as document ID for easy deduplication
-      const docId = `word_${word.start}_${word.len}`;
-      const ref = db.collection(WORDS_COLLECTION).doc(docId);
-      
-      batch.set(ref, {
-        start: word.start,
-        len: word.len,
-        word: word.word,
-        timestamp: now
-      } as WordDocument);
-    }
-
-    await batch.commit();
-    this.pendingWords = [];
-
-    if (this.flushTimer) {
-      clearTimeout(this.flushTimer);
-      this.flushTimer = undefined;
-    }
-  }
+  getLastPersistedPosition(): number;
+
+  /** The persisted position, read from the backend if no load did yet. */
+  loadPosition(): Promise<number>;
 
   /**
-   * Get the position up to which words have been persisted
+   * Write `position` as the persisted position even if that moves it
+   * back, so the channel re-scans from there (restore tooling).
    */
-  getLastPersistedPosition(): number {
-    return this.lastPersistedPosition;
+  resetPosition(position: number): Promise<void>;
+
+  /** Flush queued words and release the backend. */
+  close(): Promise<void>;
+}
+
+/** The WordStore surface on top of BatchedHitStore; backends add load and write. */
+export abstract class BatchedWordStore extends BatchedHitStore<WordHit> implements WordStore {
+  abstract loadWords(): Promise<WordHit[]>;
+  abstract loadRange(start: number, end: number): Promise<WordHit[]>;
+
+  addWord(hit: WordHit): Promise<void> {
+    return this.enqueue(hit);
   }
 
-  /**
-   * Clean up resources
-   */
-  async close(): Promise<void> {
-    if (this.flushTimer) {
-      clearTimeout(this.flushTimer);
-    }
-    await this.flush();
+  replaceWords(stale: WordHit[], fresh: WordHit[]): Promise<void> {
+    return this.replace(stale, fresh);
   }
-}
\ No newline at end of file
+}
+
+/** Document / row / map key of a word. */
+export function wordKey(hit: WordHit): string {
+  return `word_${hit.start}_${hit.len}`;
+}
+
+/** Same word at the same key: text, kind and dictionary agree. */
+export function sameWord(a: WordHit, b: WordHit | undefined): boolean {
+  return b !== undefined && a.word === b.word && a.kind === b.kind && a.dictionary === b.dictionary;
+}
@@ -64,6 +64,16 @@ export const wsLogger = createLogger('websocket');
 export const httpLogger = createLogger('http');
 export const firebaseLogger = createLogger('firebase');
 export const startupLogger = createLogger('startup');
+export const auditLogger = createLogger('audit');
+export const repairLogger = createLogger('repair');
+export const catchUpLogger = createLogger('catch-up');
+export const phraseLogger = createLogger('phrase-watcher');
+export const leaderboardLogger = createLogger('leaderboards');
+export const reindexLogger = createLogger('reindex');
+export const encodeLogger = createLogger('encode-chunks');
+export const ledgerLogger = createLogger('ledger');
+export const migrateLogger = createLogger('migrate');
+export const snapshotLogger = createLogger('snapshot');
 
 // Helper to log performance metrics
 export const logPerformance = (